@@ -1,77 +1,112 @@
 import { build } from "esbuild";
+import { fileURLToPath } from "node:url";
 import ts from "typescript";
 
 const ENTRY_POINT = "src/server/main.ts";
 
-const program = ts.createProgram([ENTRY_POINT], {});
-const sourceFile = program.getSourceFile(ENTRY_POINT);
+// Joins the namespaces of a procedure; the same as `procedureName` in src/utils/procedures.ts.
+const SEPARATOR = "__";
 
-const exportedFunctionNames = [];
-sourceFile?.forEachChild((node) => {
-  if (ts.isExportDeclaration(node)) {
-    node.forEachChild((node) => {
-      if (ts.isNamedExports(node)) {
-        node.forEachChild((node) => {
-          if (ts.isExportSpecifier(node)) {
-            exportedFunctionNames.push(ts.idText(node.name));
-          }
-        });
-      }
-    });
-  } else if (
-    ts.isVariableStatement(node) &&
-    includesExportKeywordModifier(node)
-  ) {
-    node.forEachChild((node) => {
-      if (ts.isVariableDeclarationList(node)) {
-        node.forEachChild((node) => {
-          if (ts.isVariableDeclaration(node)) {
-            node.forEachChild((node) => {
-              if (ts.isIdentifier(node)) {
-                exportedFunctionNames.push(ts.idText(node));
-              }
-            });
-          }
-        });
-      }
-    });
-  } else if (
-    ts.isFunctionDeclaration(node) &&
-    includesExportKeywordModifier(node)
-  ) {
-    node.name && exportedFunctionNames.push(ts.idText(node.name));
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Every function exported from an entry point, named after the global function it is exposed under.
+ * Throws when a name cannot be called from the client or is taken twice.
+ */
+export function proceduresOf(entryPoint) {
+  // The compiler options of the project, so `@/` imports resolve and the router gets its real type.
+  const { config } = ts.readConfigFile("tsconfig.json", ts.sys.readFile);
+  const { options } = ts.parseJsonConfigFileContent(config, ts.sys, ".");
+
+  const program = ts.createProgram([entryPoint], options);
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(entryPoint);
+  const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+
+  /**
+   * Paths to every function under an export: the export itself when it is a function,
+   * or the functions of a router, namespace by namespace.
+   */
+  function procedurePaths(type, path) {
+    if (checker.getSignaturesOfType(type, ts.SignatureKind.Call).length > 0) {
+      return [path];
+    }
+    if (!(type.flags & ts.TypeFlags.Object)) {
+      return [];
+    }
+    return checker
+      .getPropertiesOfType(type)
+      .flatMap((property) =>
+        procedurePaths(
+          checker.getTypeOfSymbolAtLocation(property, sourceFile),
+          [...path, property.name]
+        )
+      );
   }
-});
 
-function includesExportKeywordModifier(node) {
-  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : null;
-  if (!modifiers) return false;
+  const procedures = (
+    moduleSymbol ? checker.getExportsOfModule(moduleSymbol) : []
+  )
+    .flatMap((symbol) => {
+      const target =
+        symbol.flags & ts.SymbolFlags.Alias
+          ? checker.getAliasedSymbol(symbol)
+          : symbol;
+      return procedurePaths(
+        checker.getTypeOfSymbolAtLocation(target, sourceFile),
+        [symbol.name]
+      );
+    })
+    .map((path) => ({
+      // A function exported as is keeps its name, and a procedure drops the name of the router export.
+      name: path.length === 1 ? path[0] : path.slice(1).join(SEPARATOR),
+      path,
+    }));
 
-  return modifiers.some(
-    (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
-  );
-}
+  const names = procedures.map(({ name }) => name);
+  names.forEach((name, i) => {
+    // Functions whose name ends with an underscore are private to Apps Script and cannot be called from the client.
+    if (!IDENTIFIER_REGEX.test(name) || name.endsWith("_")) {
+      throw new Error(
+        `"${name}" cannot be the name of a public Apps Script function`
+      );
+    }
+    if (names.indexOf(name) !== i) {
+      throw new Error(`More than one function would be exposed as "${name}"`);
+    }
+  });
 
-const globalName = "_entry";
+  return procedures;
+}
 
-build({
-  entryPoints: [ENTRY_POINT],
-  format: "iife",
-  bundle: true,
-  outdir: "dist",
-  target: "es6",
-  globalName,
-  banner: {
-    js: `
-${exportedFunctionNames
-  .map((functionName) =>
-    `
-function ${functionName} () {
-  return ${globalName}.${functionName}(...arguments);
+/**
+ * A global function per procedure, calling it through the bundle exposed as `globalName`.
+ */
+export function stubsOf(procedures, globalName) {
+  return procedures
+    .map(({ name, path }) =>
+      `
+function ${name} () {
+  return ${globalName}${path.map((p) => `[${JSON.stringify(p)}]`).join("")}(...arguments);
 };
 `.trim()
-  )
-  .join("\n")}
-`.trim(),
-  },
-});
+    )
+    .join("\n");
+}
+
+// Bundles only when run as a script, not when imported by the tests.
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const globalName = "_entry";
+
+  build({
+    entryPoints: [ENTRY_POINT],
+    format: "iife",
+    bundle: true,
+    outdir: "dist",
+    target: "es6",
+    globalName,
+    banner: {
+      js: stubsOf(proceduresOf(ENTRY_POINT), globalName),
+    },
+  });
+}
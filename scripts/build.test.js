@@ -0,0 +1,69 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { proceduresOf, stubsOf } from "./build";
+
+const entryPointOf = (source) => {
+  const file = join(mkdtempSync(join(tmpdir(), "build-")), "main.ts");
+  writeFileSync(file, source);
+  return file;
+};
+
+// Type-checking the entry point takes seconds.
+describe("proceduresOf", { timeout: 30000 }, () => {
+  it("names every procedure of the router after its path", () => {
+    expect(proceduresOf("src/server/main.ts")).toEqual([
+      {
+        name: "sample__sample",
+        path: ["server", "sample", "sample"],
+      },
+      {
+        name: "sample__sample2",
+        path: ["server", "sample", "sample2"],
+      },
+      { name: "doGet", path: ["doGet"] },
+    ]);
+  });
+
+  it("rejects a name private to Apps Script", () => {
+    const entryPoint = entryPointOf(
+      "export const server = { users: { list_: () => 1 } };"
+    );
+
+    expect(() => proceduresOf(entryPoint)).toThrow(
+      '"users__list_" cannot be the name of a public Apps Script function'
+    );
+  });
+
+  it("rejects two functions exposed under the same name", () => {
+    const entryPoint = entryPointOf(
+      "export const users__list = () => 1;\n" +
+        "export const server = { users: { list: () => 2 } };"
+    );
+
+    expect(() => proceduresOf(entryPoint)).toThrow(
+      'More than one function would be exposed as "users__list"'
+    );
+  });
+});
+
+describe("stubsOf", () => {
+  it("calls the procedure in the bundle with every argument", () => {
+    const stubs = stubsOf(
+      [{ name: "users__update", path: ["server", "users", "update"] }],
+      "_entry"
+    );
+    const bundle = {
+      server: { users: { update: (...args) => ({ updated: args }) } },
+    };
+
+    const stub = new Function("_entry", `${stubs}\nreturn users__update;`)(
+      bundle
+    );
+
+    expect(stub("1", { name: "Alice" })).toEqual({
+      updated: ["1", { name: "Alice" }],
+    });
+  });
+});
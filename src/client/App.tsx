@@ -1,15 +1,19 @@
 import { GASClient } from "gas-client";
-import * as server from "../server/main";
-const { serverFunctions } = new GASClient<typeof server>();
+import type { server as router } from "../server/main";
+import { toApiError } from "../utils/api-error";
+import { createServerClient } from "../utils/procedures";
+const server = createServerClient<typeof router>(
+  new GASClient().serverFunctions
+);
 
 function App() {
   const param = "apple";
 
-  serverFunctions.sample(param).then((v) => {
-    console.log(v);
+  server.sample.sample(param).then((v) => {
+    console.log(v.ok ? v.data : toApiError(v));
   });
 
-  serverFunctions.sample2(1, "2", [false, 4]).then((v) => {
+  server.sample.sample2(1, "2", [false, 4]).then((v) => {
     console.log(v);
   });
 
@@ -6,4 +6,5 @@ export const TYPE_NAMES = [
     "symbol",
     "object",
     "bigint",
+    "Date",
 ] as const;
\ No newline at end of file
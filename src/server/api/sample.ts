@@ -1,7 +1,14 @@
 // import { Err, Ok, Result } from "../../utils/result";
 import { Err, Ok, Result } from "@/utils/result";
+import {
+  boolean,
+  number,
+  string,
+  tuple,
+  withParams,
+} from "@/server/utils/validation";
 
-export const sample = (param: string): Result<string, Error> => {
+export const sample = withParams([string()], (param): Result<string, Error> => {
   console.log(param);
 
   if (param === "error") {
@@ -9,14 +16,13 @@ export const sample = (param: string): Result<string, Error> => {
   }
 
   return Ok("banana");
-};
+});
 
-export const sample2 = (
-  a: number,
-  b: string,
-  c: [boolean, number]
-): Result<[string, [boolean], number], Error> => {
-  console.log(a, b, c);
+export const sample2 = withParams(
+  [number(), string(), tuple(boolean(), number())],
+  (a, b, c): Result<[string, [boolean], number], Error> => {
+    console.log(a, b, c);
 
-  return Ok(["banana", [true], 1]);
-};
+    return Ok(["banana", [true], 1]);
+  }
+);
@@ -1,8 +1,13 @@
-import { sample as _sample, sample2 as _sample2 } from "./api/sample";
+import { sample, sample2 } from "./api/sample";
 import { doGet as _doGet } from "./doGet";
-import { apiHandler } from "./utils/result";
+import { logging, timing } from "./utils/middleware";
+import { createRouter } from "./utils/router";
 
-export const sample  = apiHandler(_sample);
-export const sample2 = apiHandler(_sample2);
+export const server = createRouter(
+  {
+    sample: { sample, sample2 },
+  },
+  { use: [logging(), timing()] }
+);
 
-export const doGet   = () => _doGet();
+export const doGet = () => _doGet();
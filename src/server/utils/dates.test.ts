@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { formatDate, parseDateString } from "./dates";
+
+describe("parseDateString", () => {
+    it("reads a bare date as midnight in the time zone", () => {
+        const date = parseDateString("2024-01-02", "Asia/Tokyo");
+
+        expect(date && formatDate(date, "Asia/Tokyo")).toBe(
+            "2024-01-02T00:00:00.000+09:00"
+        );
+    });
+
+    it("honours an explicit offset", () => {
+        expect(
+            parseDateString("2024-01-02T03:04:05Z", "Asia/Tokyo")?.toISOString()
+        ).toBe("2024-01-02T03:04:05.000Z");
+    });
+
+    it.each([
+        "2024-13-01",
+        "2024-00-10",
+        "2024-02-30",
+        "2023-02-29",
+        "2024-01-45",
+        "2024-01-02T24:00",
+        "2024-01-02T12:60",
+        "2024-01-02T12:00:60",
+    ])("rejects %s, which does not exist", (value) => {
+        expect(parseDateString(value, "Asia/Tokyo")).toBeUndefined();
+    });
+
+    it("accepts a leap day", () => {
+        expect(parseDateString("2024-02-29Z", "UTC")?.toISOString()).toBe(
+            "2024-02-29T00:00:00.000Z"
+        );
+    });
+});
@@ -0,0 +1,121 @@
+const DATE_REGEX =
+    /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/;
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Offset of the time zone from UTC at the given instant, in milliseconds.
+ */
+export const getTimeZoneOffset = (instant: number, timeZone: string) => {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+    })
+        .formatToParts(new Date(instant))
+        .reduce(
+            (acc, { type, value }) => ({ ...acc, [type]: Number(value) }),
+            {} as { [key in Intl.DateTimeFormatPartTypes]?: number }
+        );
+
+    const wallClock = Date.UTC(
+        parts.year ?? 0,
+        (parts.month ?? 1) - 1,
+        parts.day ?? 1,
+        parts.hour ?? 0,
+        parts.minute ?? 0,
+        parts.second ?? 0
+    );
+    return wallClock - (instant - (((instant % 1000) + 1000) % 1000));
+};
+
+const parseOffset = (offset: string) => {
+    if (offset === "Z") {
+        return 0;
+    }
+    const sign = offset.startsWith("-") ? -1 : 1;
+    const digits = offset.slice(1).replace(":", "");
+    return (
+        sign *
+        (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))) *
+        MINUTE
+    );
+};
+
+/**
+ * Parse `yyyy-MM-dd`, `yyyy/MM/dd` and ISO 8601 date-times.
+ * Values without an explicit offset are read as wall-clock time in `timeZone`,
+ * so a bare date means midnight of that day in the script's time zone.
+ * @returns The parsed date, or `undefined` when the string is not a date
+ *          or names one that does not exist, like `2024-02-30` or `24:00`.
+ */
+export const parseDateString = (
+    value: string,
+    timeZone: string
+): Date | undefined => {
+    const matched = DATE_REGEX.exec(value.trim());
+    if (matched === null) {
+        return undefined;
+    }
+
+    const [, year, month, day, hour, minute, second, millis, offset] =
+        matched;
+    const fields = {
+        year: Number(year),
+        month: Number(month),
+        day: Number(day),
+        hour: Number(hour ?? 0),
+        minute: Number(minute ?? 0),
+        second: Number(second ?? 0),
+    };
+    const wallClock = Date.UTC(
+        fields.year,
+        fields.month - 1,
+        fields.day,
+        fields.hour,
+        fields.minute,
+        fields.second,
+        Number((millis ?? "0").padEnd(3, "0"))
+    );
+
+    // Date.UTC rolls fields over, so "2024-02-30" would otherwise become March 1st.
+    const calendar = new Date(wallClock);
+    if (
+        calendar.getUTCFullYear() !== fields.year ||
+        calendar.getUTCMonth() !== fields.month - 1 ||
+        calendar.getUTCDate() !== fields.day ||
+        fields.hour > 23 ||
+        fields.minute > 59 ||
+        fields.second > 59
+    ) {
+        return undefined;
+    }
+
+    if (offset !== undefined) {
+        return new Date(wallClock - parseOffset(offset));
+    }
+
+    // The offset depends on the instant itself around DST transitions, so settle it twice.
+    const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+    return new Date(wallClock - getTimeZoneOffset(guess, timeZone));
+};
+
+/**
+ * Format a date as ISO 8601 with the offset of `timeZone`, e.g. `2024-01-02T00:00:00.000+09:00`.
+ */
+export const formatDate = (date: Date, timeZone: string) => {
+    const offset = getTimeZoneOffset(date.getTime(), timeZone);
+    const wallClock = new Date(date.getTime() + offset).toISOString();
+
+    const sign = offset < 0 ? "-" : "+";
+    const minutes = Math.abs(offset) / MINUTE;
+    const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+    const mm = String(minutes % 60).padStart(2, "0");
+
+    return `${wallClock.slice(0, -1)}${sign}${hh}:${mm}`;
+};
@@ -0,0 +1,198 @@
+import { Err, Ok } from "@/utils/result";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  RequestContext,
+  allowUsers,
+  logging,
+  rateLimit,
+  requireRole,
+  timing,
+} from "./middleware";
+import {
+  createFakeEnvironment,
+  createFakeProperties,
+  createFakeSpreadsheet,
+} from "./spread-sheet-query/fake";
+
+const contextOf = (user: string): RequestContext => ({
+  user,
+  requestId: "request",
+  startedAt: 0,
+  procedure: "users__list",
+  args: ["x"],
+});
+
+const done = async () => Ok("done");
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("rateLimit", () => {
+  const setup = () => {
+    let now = 0;
+    const clock = () => now;
+    const properties = createFakeProperties();
+    const environment = createFakeEnvironment(createFakeSpreadsheet([]), {
+      properties,
+      now: clock,
+    });
+    const limited = rateLimit({ limit: 2, windowInMillis: 60000, environment });
+    const call = (user = "a@example.com") => limited(contextOf(user), done);
+
+    return {
+      properties,
+      call,
+      advance: (millis: number) => {
+        now += millis;
+      },
+    };
+  };
+
+  it("refuses calls past the limit until the window ends", async () => {
+    const { call, advance } = setup();
+
+    expect((await call()).isOk()).toBe(true);
+    expect((await call()).isOk()).toBe(true);
+    advance(15000);
+    const refused = await call();
+    expect(refused.isErr() && refused.error).toMatchObject({
+      code: "RATE_LIMITED",
+      details: { retryAfterInMillis: 45000 },
+    });
+
+    advance(45000);
+    expect((await call()).isOk()).toBe(true);
+  });
+
+  it("counts each user apart", async () => {
+    const { call } = setup();
+
+    await call("a@example.com");
+    await call("a@example.com");
+
+    expect((await call("b@example.com")).isOk()).toBe(true);
+  });
+
+  it("keeps each count with the start of its window", async () => {
+    const { properties, call, advance } = setup();
+
+    await call();
+    advance(60000);
+    await call();
+
+    expect(properties.dump()).toEqual({
+      "rate-limit:a@example.com": JSON.stringify({ start: 60000, count: 1 }),
+    });
+  });
+});
+
+describe("allowUsers", () => {
+  it("lets through only the listed users, ignoring case", async () => {
+    const allowed = allowUsers(["A@example.com"]);
+
+    expect((await allowed(contextOf("a@example.com"), done)).isOk()).toBe(true);
+    const refused = await allowed(contextOf("b@example.com"), done);
+    expect(refused.isErr() && refused.error).toMatchObject({
+      code: "FORBIDDEN",
+      details: { user: "b@example.com" },
+    });
+  });
+});
+
+describe("requireRole", () => {
+  const environment = createFakeEnvironment(
+    createFakeSpreadsheet([
+      {
+        name: "Roles",
+        values: [
+          ["User", "Role"],
+          ["a@example.com", "member"],
+          ["A@example.com", "admin"],
+          ["b@example.com", "member"],
+        ],
+      },
+    ])
+  );
+  const admin = requireRole(["admin"], { sheet: "Roles", environment });
+
+  it("passes on every role of a user having one of the roles", async () => {
+    const next = vi.fn(done);
+
+    const result = await admin(contextOf("a@example.com"), next);
+
+    expect(result.isOk()).toBe(true);
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ roles: ["member", "admin"] })
+    );
+  });
+
+  it("refuses a user without any of the roles", async () => {
+    const next = vi.fn(done);
+
+    const result = await admin(contextOf("b@example.com"), next);
+
+    expect(result.isErr() && result.error).toMatchObject({ code: "FORBIDDEN" });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("throws when the roles sheet cannot be read", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const missing = requireRole(["admin"], { sheet: "Missing", environment });
+
+    await expect(
+      missing(contextOf("a@example.com"), done)
+    ).rejects.toMatchObject({ code: "SHEET_NOT_FOUND" });
+  });
+});
+
+describe("logging", () => {
+  it("logs the call and how it ended, with the arguments only if asked", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    await logging()(contextOf("a@example.com"), done);
+    await logging({ args: true })(contextOf(""), async () =>
+      Err(new RangeError("too far"))
+    );
+
+    expect(log.mock.calls.map(([line]) => line)).toEqual([
+      "[request] users__list called by a@example.com",
+      "[request] users__list ok",
+      '[request] users__list called by anonymous with ["x"]',
+      "[request] users__list RangeError: too far",
+    ]);
+  });
+
+  it("logs an error thrown by the handler and throws it on", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const error = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    const thrown = new Error("boom");
+
+    await expect(
+      logging()(contextOf("a@example.com"), async () => {
+        throw thrown;
+      })
+    ).rejects.toBe(thrown);
+    expect(error).toHaveBeenCalledWith("[request] users__list threw", thrown);
+  });
+});
+
+describe("timing", () => {
+  it("warns of calls taking longer than slowInMillis", async () => {
+    vi.useFakeTimers();
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const timed = timing({ slowInMillis: 1000 });
+
+    vi.setSystemTime(500);
+    await timed(contextOf("a@example.com"), done);
+    vi.setSystemTime(1500);
+    await timed(contextOf("a@example.com"), done);
+
+    expect(log).toHaveBeenCalledWith("[request] users__list took 500ms");
+    expect(warn).toHaveBeenCalledWith("[request] users__list took 1500ms");
+  });
+});
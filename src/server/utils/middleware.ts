@@ -0,0 +1,364 @@
+import { Err, Failure, Result } from "@/utils/result";
+import { useSheetQuery } from "./spread-sheet-query";
+import { createQueryConfig } from "./spread-sheet-query/config";
+import {
+  SheetQueryEnvironment,
+  appsScriptEnvironment,
+} from "./spread-sheet-query/environment";
+import { LockTimeoutError } from "./spread-sheet-query/errors";
+
+/**
+ * What a middleware knows of the call it wraps.
+ */
+export type RequestContext = {
+  /**
+   * Email of the calling user.
+   * Empty when Apps Script does not disclose it, e.g. to a web app running as its owner.
+   */
+  readonly user: string;
+  /**
+   * Unique to the call, to tell its log lines apart.
+   */
+  readonly requestId: string;
+  /**
+   * When the call started, in milliseconds.
+   */
+  readonly startedAt: number;
+  /**
+   * Name of the procedure called, e.g. `users__list` for `users.list`.
+   */
+  readonly procedure: string;
+  readonly args: readonly unknown[];
+};
+
+type Outcome = Result<unknown, Error>;
+
+/**
+ * Run the rest of the pipeline, ending with the handler, with the given context.
+ */
+export type Next<C extends RequestContext> = (context: C) => Promise<Outcome>;
+
+/**
+ * Code run around a handler: it may return an `Err` of its own instead of calling `next`,
+ * or pass `next` a context with more to it, which is what the handler then gets.
+ * `errors` only carries the type of the errors it may return, so they reach the client typed.
+ */
+export type Middleware<
+  In extends RequestContext = RequestContext,
+  Out extends In = In,
+  E extends Error = never
+> = ((context: In, next: Next<Out>) => Promise<Outcome>) & {
+  readonly errors?: E;
+};
+
+/**
+ * Any middleware, as kept once its types are no longer needed.
+ */
+export type AnyMiddleware = Middleware<RequestContext, RequestContext, Error>;
+
+/**
+ * A middleware that works with any context, passing it on with `Extra` added.
+ * Like `errors`, `extra` is there for its type only.
+ */
+export type Wrapper<E extends Error = never, Extra = unknown> = (<
+  C extends RequestContext
+>(
+  context: C,
+  next: Next<C & Extra>
+) => Promise<Outcome>) & { readonly errors?: E; readonly extra?: Extra };
+
+export type ErrorsOf<M> = M extends { readonly errors?: infer E }
+  ? Extract<E, Error>
+  : never;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Handler = (...args: any[]) => Outcome | Promise<Outcome>;
+
+/**
+ * A handler together with the middleware it runs behind, built with `procedure`.
+ */
+export class Procedure<
+  Args extends unknown[],
+  R extends Outcome,
+  C extends RequestContext = RequestContext
+> {
+  public readonly middleware: readonly AnyMiddleware[];
+  /**
+   * Make the handler for the context of a call.
+   */
+  public readonly handlerOf: (context: C) => (...args: Args) => R | Promise<R>;
+
+  constructor(
+    middleware: readonly AnyMiddleware[],
+    handlerOf: (context: C) => (...args: Args) => R | Promise<R>
+  ) {
+    this.middleware = middleware;
+    this.handlerOf = handlerOf;
+  }
+}
+
+export type ProcedureBuilder<C extends RequestContext, E extends Error> = {
+  use<F extends Error = never, Extra = unknown>(
+    middleware: Wrapper<F, Extra>
+  ): ProcedureBuilder<C & Extra, E | F>;
+  use<Out extends C, F extends Error = never>(
+    middleware: Middleware<C, Out, F>
+  ): ProcedureBuilder<Out, E | F>;
+  /**
+   * @param handlerOf Gets the context of the call and returns the handler,
+   *                  which may itself be built with `withParams`.
+   */
+  handle<Fn extends Handler>(
+    handlerOf: (context: C) => Fn
+  ): Procedure<Parameters<Fn>, Awaited<ReturnType<Fn>> | Failure<E>, C>;
+};
+
+const builderOf = <C extends RequestContext, E extends Error>(
+  middleware: readonly AnyMiddleware[]
+): ProcedureBuilder<C, E> => ({
+  use: (m: Middleware<C, C, Error>) =>
+    builderOf([...middleware, m as unknown as AnyMiddleware]),
+  handle: (handlerOf) => new Procedure(middleware, handlerOf) as never,
+});
+
+/**
+ * Put middleware in front of a handler, each running in the order it was added.
+ * Middleware for every procedure goes to the `use` option of `createRouter` instead.
+ * @example
+ * const admin = procedure().use(requireRole(["admin"], { sheet: "Roles" }));
+ *
+ * export const server = createRouter({
+ *   users: {
+ *     delete: admin.handle(({ user, roles }) =>
+ *       withParams([string()], (id) => { ... })
+ *     ),
+ *   },
+ * });
+ */
+export const procedure = (): ProcedureBuilder<RequestContext, never> =>
+  builderOf([]);
+
+/**
+ * Run `handler` behind `middleware`, the first of which runs first.
+ */
+export const runPipeline = (
+  middleware: readonly AnyMiddleware[],
+  handler: Next<RequestContext>,
+  context: RequestContext
+) =>
+  middleware.reduceRight<Next<RequestContext>>(
+    (next, m) => (c) => m(c, next),
+    handler
+  )(context);
+
+export class ForbiddenError extends Error {
+  public readonly code = "FORBIDDEN";
+  public readonly details: { readonly user: string };
+
+  constructor(user: string, reason: string) {
+    super(`${user || "An anonymous user"} may not do this: ${reason}`);
+    this.name = "ForbiddenError";
+    this.details = { user };
+  }
+}
+
+export class RateLimitError extends Error {
+  public readonly code = "RATE_LIMITED";
+  public readonly retryable = true;
+  public readonly details: {
+    readonly limit: number;
+    readonly windowInMillis: number;
+    readonly retryAfterInMillis: number;
+  };
+
+  constructor(
+    limit: number,
+    windowInMillis: number,
+    retryAfterInMillis: number
+  ) {
+    super(
+      `More than ${limit} calls in ${windowInMillis}ms; retry in ${retryAfterInMillis}ms`
+    );
+    this.name = "RateLimitError";
+    this.details = { limit, windowInMillis, retryAfterInMillis };
+  }
+}
+
+/**
+ * Let only the given users through.
+ * @param users Emails of the users, compared case-insensitively.
+ */
+export const allowUsers = (
+  users: readonly string[]
+): Wrapper<ForbiddenError> => {
+  const allowed = new Set(users.map((u) => u.toLowerCase()));
+
+  return async (context, next) =>
+    allowed.has(context.user.toLowerCase())
+      ? next(context)
+      : Err(new ForbiddenError(context.user, "not on the allow-list"));
+};
+
+export type RoleContext = {
+  /**
+   * Every role the user has on the roles sheet.
+   */
+  readonly roles: readonly string[];
+};
+
+/**
+ * Let through users having one of `roles` on a roles sheet, adding all their roles to the context.
+ * The sheet has a `User` column of emails and a `Role` column, one row per role of a user.
+ * Failing to read the sheet is thrown, so the client gets an `"UNHANDLED"` error.
+ * @param source.sheet Sheet id (the `gid` of the sheet URL) or sheet name.
+ * @param source.spreadsheet ID or URL of the spreadsheet holding the sheet; the active spreadsheet when omitted.
+ */
+export const requireRole = (
+  roles: readonly string[],
+  source: {
+    sheet: number | string;
+    spreadsheet?: string;
+    environment?: SheetQueryEnvironment;
+  }
+): Wrapper<ForbiddenError, RoleContext> => {
+  const config = createQueryConfig(
+    source.sheet,
+    { ["User"]: "string", ["Role"]: "string" },
+    { spreadsheet: source.spreadsheet }
+  );
+
+  return async (context, next) => {
+    const user = context.user.toLowerCase();
+    const found = await useSheetQuery(
+      ([sheet]) =>
+        sheet
+          .read()
+          .filter((r) => r["User"].toLowerCase() === user)
+          .map((r) => r["Role"]),
+      [config] as const,
+      { lock: "none", environment: source.environment }
+    );
+    if (found.isErr()) {
+      throw found.error;
+    }
+    if (!found.value.some((r) => roles.includes(r))) {
+      return Err(
+        new ForbiddenError(context.user, `needs the role ${roles.join(" or ")}`)
+      );
+    }
+    return next({ ...context, roles: found.value });
+  };
+};
+
+const LOCK_TIMEOUT_IN_MILLIS = 5000;
+
+/**
+ * Let each user through at most `limit` times per window of `windowInMillis`,
+ * counting calls in the script properties, each count stored with the start of its window.
+ * @param options.key Whose calls are counted together; the user by default.
+ *                    Users Apps Script does not disclose share one count.
+ * @param options.environment Where the properties and lock come from; Apps Script by default.
+ */
+export const rateLimit = (options: {
+  limit: number;
+  windowInMillis: number;
+  key?: (context: RequestContext) => string;
+  environment?: SheetQueryEnvironment;
+}): Wrapper<RateLimitError | LockTimeoutError> => {
+  const {
+    limit,
+    windowInMillis,
+    key = ({ user }) => user,
+    environment = appsScriptEnvironment,
+  } = options;
+
+  return async (context, next) => {
+    const property = `rate-limit:${key(context)}`;
+    const properties = environment.getProperties();
+    const lock = environment.getLock("script");
+    if (!lock.tryLock(LOCK_TIMEOUT_IN_MILLIS)) {
+      return Err(new LockTimeoutError(LOCK_TIMEOUT_IN_MILLIS, 1));
+    }
+
+    try {
+      const stored = properties.getProperty(property);
+      const counted: { start: number; count: number } | null =
+        stored === null ? null : JSON.parse(stored);
+      const now = environment.now();
+      // A count left from a window that has ended starts over.
+      const window =
+        counted === null || now - counted.start >= windowInMillis
+          ? { start: now, count: 0 }
+          : counted;
+
+      if (window.count >= limit) {
+        return Err(
+          new RateLimitError(
+            limit,
+            windowInMillis,
+            window.start + windowInMillis - now
+          )
+        );
+      }
+      properties.setProperty(
+        property,
+        JSON.stringify({ ...window, count: window.count + 1 })
+      );
+    } finally {
+      lock.releaseLock();
+    }
+
+    return next(context);
+  };
+};
+
+const describeOutcome = (outcome: Outcome) =>
+  outcome.isOk()
+    ? "ok"
+    : `${outcome.error.name}${
+        "code" in outcome.error ? ` (${String(outcome.error.code)})` : ""
+      }: ${outcome.error.message}`;
+
+/**
+ * Log every call and how it ended, each line tagged with the request id.
+ * @param options.args Whether to log the arguments too; leave off when they hold personal data.
+ */
+export const logging = (options?: { args?: boolean }): Wrapper => {
+  const withArgs = options?.args ?? false;
+
+  return async (context, next) => {
+    const { requestId, procedure, user, args } = context;
+    console.log(
+      `[${requestId}] ${procedure} called by ${user || "anonymous"}${
+        withArgs ? ` with ${JSON.stringify(args)}` : ""
+      }`
+    );
+
+    try {
+      const outcome = await next(context);
+      console.log(`[${requestId}] ${procedure} ${describeOutcome(outcome)}`);
+      return outcome;
+    } catch (thrown) {
+      console.error(`[${requestId}] ${procedure} threw`, thrown);
+      throw thrown;
+    }
+  };
+};
+
+/**
+ * Log how long every call took since it started, as a warning past `slowInMillis`.
+ */
+export const timing = (options?: { slowInMillis?: number }): Wrapper => {
+  const slowInMillis = options?.slowInMillis ?? Infinity;
+
+  return async (context, next) => {
+    try {
+      return await next(context);
+    } finally {
+      const elapsed = Date.now() - context.startedAt;
+      (elapsed > slowInMillis ? console.warn : console.log)(
+        `[${context.requestId}] ${context.procedure} took ${elapsed}ms`
+      );
+    }
+  };
+};
@@ -0,0 +1,80 @@
+import { Err, Ok, Result } from "@/utils/result";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { apiHandler } from "./result";
+import { LockTimeoutError } from "./spread-sheet-query/errors";
+
+beforeEach(() => {
+  vi.stubGlobal("Session", { getScriptTimeZone: () => "Asia/Tokyo" });
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("apiHandler", () => {
+  it("returns the data of an Ok, dates as text", () => {
+    const handler = apiHandler((id: string) =>
+      Ok({ id, at: new Date("2024-01-02T00:00:00Z") })
+    );
+
+    expect(handler("1")).toEqual({
+      ok: true,
+      data: { id: "1", at: "2024-01-02T09:00:00.000+09:00" },
+    });
+  });
+
+  it("returns an Err with its code, details and whether to retry", () => {
+    const handler = apiHandler(() => Err(new LockTimeoutError(5000, 3)));
+
+    expect(handler()).toMatchObject({
+      ok: false,
+      name: "LockTimeoutError",
+      code: "LOCK_TIMEOUT",
+      details: { timeoutInMillis: 5000, attempts: 3 },
+      retryable: true,
+    });
+  });
+
+  it("returns a thrown error as an unhandled one", () => {
+    const thrown = new TypeError("oops");
+    const handler = apiHandler((): Result<string, Error> => {
+      throw thrown;
+    });
+
+    expect(handler()).toEqual({
+      ok: false,
+      name: "UnhandledError",
+      message: "oops",
+      code: "UNHANDLED",
+      cause: {
+        name: "TypeError",
+        message: "oops",
+        code: "UNKNOWN",
+        retryable: false,
+      },
+      retryable: false,
+    });
+    expect(console.error).toHaveBeenCalledWith(thrown);
+  });
+
+  it("resolves an async handler to its result", async () => {
+    const handler = apiHandler(async (n: number) => Ok(n * 2));
+
+    await expect(handler(2)).resolves.toEqual({ ok: true, data: 4 });
+  });
+
+  it("resolves a rejected async handler to an unhandled error", async () => {
+    const handler = apiHandler(async (): Promise<Result<string, Error>> => {
+      throw "not an error";
+    });
+
+    await expect(handler()).resolves.toMatchObject({
+      ok: false,
+      code: "UNHANDLED",
+      message: "not an error",
+      cause: { name: "Error", message: "not an error", code: "UNKNOWN" },
+    });
+  });
+});
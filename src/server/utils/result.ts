@@ -1,4 +1,5 @@
 import { Result } from "@/utils/result";
+import { formatDate } from "./dates";
 
 type ApiData =
   | string
@@ -6,59 +7,203 @@ type ApiData =
   | boolean
   | undefined
   | null
+  | Date
   | { [key: number]: ApiData }
   | { [key: string]: ApiData }
   | ApiData[]
   | HTMLFormElement;
 
+// `google.script.run` cannot carry Date objects, so they travel as ISO 8601 strings.
+type Serialized<T> = T extends Date
+  ? string
+  : T extends HTMLFormElement
+  ? T
+  : T extends object
+  ? { [K in keyof T]: Serialized<T[K]> }
+  : T;
+
 type ApiResultOk<T extends ApiData> = {
   ok: true;
-  data: T;
+  data: Serialized<T>;
 };
 
-type ApiResultErr = {
+type CodeOf<E> = E extends { code: infer C extends string } ? C : string;
+
+type DetailsOf<E> = E extends { details: infer D } ? Serialized<D> : unknown;
+
+/**
+ * An error as it travels to the client, `E` being the error type of the handler.
+ * Rebuild it with `toApiError` of `src/utils/api-error.ts`.
+ */
+export type SerializedError<E extends Error = Error> = E extends Error
+  ? {
+      name: string;
+      message: string;
+      /**
+       * Machine-readable kind of the error; `"UNKNOWN"` when the error carries none.
+       */
+      code: CodeOf<E>;
+      /**
+       * Plain data describing the error, when the error carries it.
+       */
+      details?: DetailsOf<E>;
+      /**
+       * The error that led to this one, when known.
+       */
+      cause?: SerializedError;
+      /**
+       * Whether calling again as is may succeed, e.g. after a lock timeout.
+       */
+      retryable: boolean;
+    }
+  : never;
+
+export type ApiResultErr<E extends Error = Error> = {
   ok: false;
-  name: string;
-  message: string;
-};
+} & SerializedError<E>;
+
+type ApiResult<T extends ApiData, E extends Error> =
+  | ApiResultOk<T>
+  | ApiResultErr<E>;
 
-type ApiResult<T extends ApiData> = ApiResultOk<T> | ApiResultErr;
+const serialize = (v: ApiData, getTimeZone: () => string): ApiData => {
+  if (v instanceof Date) {
+    return formatDate(v, getTimeZone());
+  }
+  if (Array.isArray(v)) {
+    return v.map((e) => serialize(e, getTimeZone));
+  }
+  if (
+    v !== null &&
+    typeof v === "object" &&
+    Object.getPrototypeOf(v) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(v).map(([k, e]) => [k, serialize(e, getTimeZone)])
+    );
+  }
+  return v;
+};
 
 const ok = <T extends ApiData>(v: T): ApiResultOk<T> => {
+  const data = serialize(v, () => Session.getScriptTimeZone());
   return {
     ok: true,
-    data: v,
+    data: data as unknown as Serialized<T>,
   };
 };
 
-const err = <E extends Error>(e: E): ApiResultErr => {
+const UNKNOWN_CODE = "UNKNOWN";
+
+// Causes deeper than this are dropped, which also ends cycles of causes.
+const MAX_CAUSE_DEPTH = 5;
+
+const serializeError = (e: unknown, depth: number): SerializedError => {
+  if (!(e instanceof Error)) {
+    return {
+      name: "Error",
+      message: String(e),
+      code: UNKNOWN_CODE,
+      retryable: false,
+    };
+  }
+
+  const { code, details, cause, retryable } = e as {
+    code?: unknown;
+    details?: unknown;
+    cause?: unknown;
+    retryable?: unknown;
+  };
+
   return {
-    ok: false,
     name: e.name,
     message: e.message,
+    code: typeof code === "string" ? code : UNKNOWN_CODE,
+    ...(details !== undefined
+      ? {
+          details: serialize(details as ApiData, () =>
+            Session.getScriptTimeZone()
+          ),
+        }
+      : {}),
+    ...(cause !== undefined && depth < MAX_CAUSE_DEPTH
+      ? { cause: serializeError(cause, depth + 1) }
+      : {}),
+    retryable: retryable === true,
   };
 };
 
+const err = <E extends Error>(e: E): ApiResultErr<E> =>
+  ({
+    ok: false,
+    ...serializeError(e, 0),
+  } as ApiResultErr<E>);
+
+/**
+ * A value thrown by a handler instead of being returned as an `Err`.
+ */
+class UnhandledError extends Error {
+  public readonly code = "UNHANDLED";
+  public readonly cause: unknown;
+
+  constructor(thrown: unknown) {
+    super(thrown instanceof Error ? thrown.message : String(thrown));
+    this.name = "UnhandledError";
+    this.cause = thrown;
+  }
+}
+
+type Returned = Result<ApiData, Error>;
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-type Func = (...args: any[]) => Result<ApiData, Error>;
+type Func = (...args: any[]) => Returned | Promise<Returned>;
+
+type Settled<Fn extends Func> = Awaited<ReturnType<Fn>>;
+
+type ApiResultOf<Fn extends Func> = ApiResult<
+  Settled<Fn> extends Result<infer T extends ApiData, Error> ? T : never,
+  | (Settled<Fn> extends Result<ApiData, infer E> ? E : never)
+  | UnhandledError
+>;
+
+// Async handlers resolve to their result, others return it as is.
+type HandledAs<Returned, R> = Returned extends Promise<unknown>
+  ? Promise<R>
+  : R;
+
+type Handled<Fn extends Func> = HandledAs<ReturnType<Fn>, ApiResultOf<Fn>>;
+
+const toApiResult = <Fn extends Func>(result: Returned): ApiResultOf<Fn> =>
+  (result.isOk()
+    ? ok(result.value)
+    : err(result.error)) as unknown as ApiResultOf<Fn>;
+
+const unhandled = <Fn extends Func>(thrown: unknown) => {
+  // Still shows in the executions log, which the client no longer reaches.
+  console.error(thrown);
+  return err(new UnhandledError(thrown)) as ApiResultOf<Fn>;
+};
 
 const resultify =
-  <
-    Fn extends Func,
-    T extends ReturnType<Fn> extends Result<infer T extends ApiData, Error>
-      ? T
-      : never
-  >(
-    fn: Fn
-  ) =>
-  (...p: Parameters<typeof fn>): ApiResult<T> => {
-    const result = fn(...p);
-
-    if (result.isOk()) {
-      return ok(result.value as T);
-    }
+  <Fn extends Func>(fn: Fn) =>
+  (...p: Parameters<typeof fn>): Handled<Fn> => {
+    try {
+      const returned = fn(...p);
 
-    return err(result.error);
+      if (returned instanceof Promise) {
+        return returned
+          .then((result) => toApiResult<Fn>(result))
+          .catch((thrown) => unhandled<Fn>(thrown)) as Handled<Fn>;
+      }
+      return toApiResult<Fn>(returned) as Handled<Fn>;
+    } catch (thrown) {
+      return unhandled<Fn>(thrown) as Handled<Fn>;
+    }
   };
 
+/**
+ * Expose `fn` to the client, turning its `Result` into plain data `google.script.run` can carry.
+ * Values thrown by `fn`, or rejecting the promise of an async `fn`, become an `"UNHANDLED"` error,
+ * so the client always gets an `ApiResult`.
+ */
 export const apiHandler = <Fn extends Func>(fn: Fn) => resultify(fn);
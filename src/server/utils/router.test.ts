@@ -0,0 +1,93 @@
+import { Ok } from "@/utils/result";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RequestContext, Wrapper, allowUsers, procedure } from "./middleware";
+import { createRouter } from "./router";
+
+beforeEach(() => {
+  vi.stubGlobal("Session", {
+    getActiveUser: () => ({ getEmail: () => "a@example.com" }),
+    getScriptTimeZone: () => "Asia/Tokyo",
+  });
+  vi.stubGlobal("Utilities", { getUuid: () => "request" });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+// Records its name when it runs, then goes on.
+const recording =
+  (name: string, order: string[]): Wrapper =>
+  async (context, next) => {
+    order.push(name);
+    return next(context);
+  };
+
+describe("createRouter", () => {
+  it("wraps each handler of every namespace in apiHandler", () => {
+    const router = createRouter({
+      users: {
+        list: () => Ok(["Alice"]),
+        groups: { list: () => Ok([new Date("2024-01-02T00:00:00Z")]) },
+      },
+    });
+
+    expect(router.users.list()).toEqual({ ok: true, data: ["Alice"] });
+    expect(router.users.groups.list()).toEqual({
+      ok: true,
+      data: ["2024-01-02T09:00:00.000+09:00"],
+    });
+  });
+
+  it("runs the middleware of the router, then that of the procedure", async () => {
+    const order: string[] = [];
+    let received: RequestContext | undefined;
+    const router = createRouter(
+      {
+        users: {
+          update: procedure()
+            .use(recording("procedure", order))
+            .handle((context) => {
+              received = context;
+              return (id: string) => {
+                order.push("handler");
+                return Ok(id);
+              };
+            }),
+          list: () => Ok([]),
+        },
+      },
+      { use: [recording("first", order), recording("second", order)] }
+    );
+
+    const result = await router.users.update("1");
+
+    expect(result).toEqual({ ok: true, data: "1" });
+    expect(order).toEqual(["first", "second", "procedure", "handler"]);
+    expect(received).toMatchObject({
+      user: "a@example.com",
+      requestId: "request",
+      procedure: "users__update",
+      args: ["1"],
+    });
+    await expect(router.users.list()).resolves.toEqual({ ok: true, data: [] });
+  });
+
+  it("returns the error of a middleware without calling the handler", async () => {
+    const handler = vi.fn(() => Ok("done"));
+    const router = createRouter(
+      { users: { list: handler } },
+      { use: [allowUsers(["b@example.com"])] }
+    );
+
+    const result = await router.users.list();
+
+    expect(result).toMatchObject({
+      ok: false,
+      code: "FORBIDDEN",
+      details: { user: "a@example.com" },
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
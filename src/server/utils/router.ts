@@ -0,0 +1,117 @@
+import { procedureName } from "@/utils/procedures";
+import { Failure } from "@/utils/result";
+import {
+  AnyMiddleware,
+  ErrorsOf,
+  Procedure,
+  RequestContext,
+  runPipeline,
+} from "./middleware";
+import { apiHandler } from "./result";
+
+type Handler = Parameters<typeof apiHandler>[0];
+
+/**
+ * Procedures of the server by name, grouped into namespaces by nesting.
+ */
+export type RouterDefinition = {
+  readonly [name: string]:
+    | Handler
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    | Procedure<any[], any, any>
+    | RouterDefinition;
+};
+
+// What the client calls for a procedure that runs behind middleware, `G` being the errors of the global one.
+type Exposed<Args extends unknown[], R, G extends Error> = ((
+  ...args: Args
+) => Promise<R | Failure<G>>) extends infer Fn extends Handler
+  ? ReturnType<typeof apiHandler<Fn>>
+  : never;
+
+export type Router<
+  D extends RouterDefinition,
+  M extends readonly AnyMiddleware[] = []
+> = {
+  readonly [K in keyof D]: D[K] extends Procedure<infer Args, infer R, never>
+    ? Exposed<Args, R, ErrorsOf<M[number]>>
+    : D[K] extends Handler
+    ? M extends readonly []
+      ? ReturnType<typeof apiHandler<D[K]>>
+      : Exposed<
+          Parameters<D[K]>,
+          Awaited<ReturnType<D[K]>>,
+          ErrorsOf<M[number]>
+        >
+    : D[K] extends RouterDefinition
+    ? Router<D[K], M>
+    : never;
+};
+
+const contextOf = (
+  procedure: string,
+  args: readonly unknown[]
+): RequestContext => ({
+  user: Session.getActiveUser().getEmail(),
+  requestId: Utilities.getUuid(),
+  startedAt: Date.now(),
+  procedure,
+  args,
+});
+
+const routerOf = (
+  definition: RouterDefinition,
+  path: readonly string[],
+  use: readonly AnyMiddleware[]
+): unknown =>
+  Object.fromEntries(
+    Object.entries(definition).map(([name, entry]) => {
+      const entryPath = [...path, name];
+
+      if (typeof entry === "function" && use.length === 0) {
+        return [name, apiHandler(entry)];
+      }
+      if (typeof entry === "function" || entry instanceof Procedure) {
+        const { middleware, handlerOf } =
+          entry instanceof Procedure
+            ? entry
+            : new Procedure([], () => entry as Handler);
+
+        return [
+          name,
+          apiHandler(
+            (async (...args: unknown[]) =>
+              runPipeline(
+                [...use, ...middleware],
+                async (context) => handlerOf(context)(...args),
+                contextOf(procedureName(entryPath), args)
+              )) as Handler
+          ),
+        ];
+      }
+      return [name, routerOf(entry, entryPath, use)];
+    })
+  );
+
+/**
+ * Declare every procedure the client can call, each wrapped in `apiHandler`.
+ * Exported from `main.ts`, the router gets a global stub per procedure from `scripts/build.js`,
+ * named after its path, e.g. `users__list` for `users.list`.
+ * @param options.use Middleware every procedure runs behind, before its own, the first running first.
+ *                    Procedures then resolve asynchronously.
+ * @example
+ * export const server = createRouter(
+ *   {
+ *     users: { list: listUsers, update: updateUser },
+ *     groups: { update: admin.handle(() => updateGroup) },
+ *   },
+ *   { use: [logging(), timing({ slowInMillis: 10000 })] }
+ * );
+ */
+export const createRouter = <
+  const D extends RouterDefinition,
+  const M extends readonly AnyMiddleware[] = []
+>(
+  definition: D,
+  options?: { use?: M }
+): Router<D, M> => routerOf(definition, [], options?.use ?? []) as Router<D, M>;
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import { auditEntriesOf, auditSheet } from "./audit";
+import { createQueryConfig } from "./config";
+import { createFakeEnvironment, createFakeSpreadsheet } from "./fake";
+import { readHistory, useSheetQuery } from "./index";
+
+type User = { ["ID"]: string; ["Name"]: string };
+
+const STAMP = { timestamp: new Date(0), user: "a@example.com", sheet: "Users" };
+
+const BEFORE: User[] = [
+    { ["ID"]: "1", ["Name"]: "Alice" },
+    { ["ID"]: "2", ["Name"]: "Bob" },
+    { ["ID"]: "3", ["Name"]: "Carol" },
+];
+
+describe("auditEntriesOf", () => {
+    it("records deletions, then updates and inserts, of keyed records", () => {
+        const entries = auditEntriesOf<User>(
+            BEFORE,
+            [
+                { origin: 0, values: BEFORE[0] },
+                { origin: 1, values: { ["ID"]: "2", ["Name"]: "Robert" } },
+                {
+                    origin: undefined,
+                    values: { ["ID"]: "4", ["Name"]: "Dave" },
+                },
+            ],
+            ["ID"],
+            ["ID", "Name"],
+            STAMP
+        );
+
+        expect(entries.map(({ key, operation }) => [key, operation])).toEqual([
+            ['["3"]', "delete"],
+            ['["2"]', "update"],
+            ['["4"]', "insert"],
+        ]);
+        expect(entries[1]).toMatchObject({
+            before: { ["ID"]: "2", ["Name"]: "Bob" },
+            after: { ["ID"]: "2", ["Name"]: "Robert" },
+        });
+    });
+
+    it("deletes and inserts a record whose key changed", () => {
+        const entries = auditEntriesOf<User>(
+            BEFORE.slice(0, 1),
+            [{ origin: 0, values: { ["ID"]: "9", ["Name"]: "Alice" } }],
+            ["ID"],
+            ["ID", "Name"],
+            STAMP
+        );
+
+        expect(entries.map(({ key, operation }) => [key, operation])).toEqual([
+            ['["1"]', "delete"],
+            ['["9"]', "insert"],
+        ]);
+    });
+
+    it("matches rows by their origin without key columns", () => {
+        const entries = auditEntriesOf<User>(
+            BEFORE.slice(0, 1),
+            [{ origin: 0, values: { ["ID"]: "9", ["Name"]: "Alice" } }],
+            [],
+            ["ID", "Name"],
+            STAMP
+        );
+
+        expect(entries).toEqual([
+            {
+                ...STAMP,
+                key: null,
+                operation: "update",
+                before: { ["ID"]: "1", ["Name"]: "Alice" },
+                after: { ["ID"]: "9", ["Name"]: "Alice" },
+            },
+        ]);
+    });
+});
+
+const USERS = [
+    ["ID", "Name"],
+    ["1", "Alice"],
+    ["2", "Bob"],
+];
+
+const userConfig = createQueryConfig(
+    "Users",
+    { ["ID"]: "string", ["Name"]: "string" },
+    { primaryKey: "ID", audit: auditSheet("Audit") }
+);
+
+const setup = () => {
+    const spreadsheet = createFakeSpreadsheet([
+        { name: "Users", values: USERS.map((row) => row.slice()) },
+    ]);
+    const environment = createFakeEnvironment(spreadsheet, { now: () => 0 });
+    const audit = () =>
+        spreadsheet.getSheets().find((s) => s.getName() === "Audit");
+    return { environment, audit };
+};
+
+describe("auditSheet", () => {
+    it("adds rows to a full audit sheet", () => {
+        const { environment, audit } = setup();
+        const sink = auditSheet("Audit");
+        sink.write(
+            [
+                {
+                    ...STAMP,
+                    key: "0",
+                    operation: "insert",
+                    before: null,
+                    after: {},
+                },
+            ],
+            environment
+        );
+        const sheet = audit()!;
+        const filler = sheet.getRange(2, 1, 1, 7).getValues()[0];
+        sheet
+            .getRange(3, 1, sheet.getMaxRows() - 2, 7)
+            .setValues(
+                Array.from({ length: sheet.getMaxRows() - 2 }, () => filler)
+            );
+
+        sink.write(
+            [
+                {
+                    ...STAMP,
+                    key: "1",
+                    operation: "delete",
+                    before: { ["Name"]: "Alice" },
+                    after: null,
+                },
+            ],
+            environment
+        );
+
+        expect(sheet.getMaxRows()).toBe(1001);
+        expect(sheet.dump()[1000]).toEqual([
+            new Date(0),
+            "a@example.com",
+            "Users",
+            "1",
+            "delete",
+            '{"Name":"Alice"}',
+            "",
+        ]);
+    });
+});
+
+describe("readHistory", () => {
+    it("returns the committed changes of a record, oldest first", async () => {
+        const { environment } = setup();
+        await useSheetQuery(
+            ([users]) => {
+                users.update("1", { ["Name"]: "Alicia" });
+                users.deleteByKey("2");
+                users.commit();
+                users.update("1", { ["Name"]: "Ally" });
+                users.commit();
+            },
+            [userConfig] as const,
+            { environment }
+        );
+
+        const result = await readHistory(userConfig, "1", { environment });
+
+        expect(result.isOk() && result.value).toEqual([
+            {
+                timestamp: new Date(0),
+                user: "user@example.com",
+                sheet: "Users",
+                key: '["1"]',
+                operation: "update",
+                before: { ["ID"]: "1", ["Name"]: "Alice" },
+                after: { ["ID"]: "1", ["Name"]: "Alicia" },
+            },
+            {
+                timestamp: new Date(0),
+                user: "user@example.com",
+                sheet: "Users",
+                key: '["1"]',
+                operation: "update",
+                before: { ["ID"]: "1", ["Name"]: "Alicia" },
+                after: { ["ID"]: "1", ["Name"]: "Ally" },
+            },
+        ]);
+    });
+
+    it("finds no history before anything was audited", async () => {
+        const { environment } = setup();
+
+        const result = await readHistory(userConfig, "1", { environment });
+
+        expect(result.isOk() && result.value).toEqual([]);
+    });
+});
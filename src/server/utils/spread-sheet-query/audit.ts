@@ -0,0 +1,212 @@
+import { CodingContext, encodeRows } from "./coerce";
+import { codec, enumOf } from "./codecs";
+import { column } from "./columns";
+import { createQueryConfig } from "./config";
+import { openCursor } from "./cursor";
+import { TrackedRow, ensureRows } from "./diff";
+import { SheetQueryEnvironment } from "./environment";
+import { SheetNotFoundError } from "./errors";
+import { serializeKey } from "./keys";
+import { headersOf, layoutOf, recordIntoRawValues } from "./layout";
+import { locateSheet } from "./locate";
+import { provisionSheet } from "./provision";
+import { AuditEntry, AuditSink } from "./types/audit";
+
+type Snapshot = { readonly [column: string]: unknown };
+
+/**
+ * Entries for what a commit changes.
+ * With key columns, records are matched by key, so a record whose key changed is deleted and inserted;
+ * without, rows are matched by the loaded row they stem from.
+ * @param before Records as last loaded or committed.
+ * @param after Records about to be committed, tracked to their index in `before`.
+ * @param columns Columns compared and recorded.
+ */
+export const auditEntriesOf = <R extends object>(
+    before: readonly R[],
+    after: readonly TrackedRow<R>[],
+    keyColumns: readonly (keyof R)[],
+    columns: readonly (keyof R)[],
+    stamp: Pick<AuditEntry, "timestamp" | "user" | "sheet">
+): AuditEntry[] => {
+    const keyed = keyColumns.length > 0;
+    const keyOf = (record: R) =>
+        keyed ? serializeKey(record, keyColumns) : null;
+    const isSame = (a: R, b: R) =>
+        serializeKey(a, columns) === serializeKey(b, columns);
+    const snapshotOf = (record: R) =>
+        columns.reduce(
+            (acc, c) => ({ ...acc, [c]: record[c] }),
+            {} as Snapshot
+        );
+
+    const entryOf = (from: R | undefined, to: R | undefined): AuditEntry => ({
+        ...stamp,
+        key: keyOf((to ?? from) as R),
+        operation:
+            from === undefined
+                ? "insert"
+                : to === undefined
+                ? "delete"
+                : "update",
+        before: from === undefined ? null : snapshotOf(from),
+        after: to === undefined ? null : snapshotOf(to),
+    });
+
+    const matchOf = keyed
+        ? (() => {
+              const byKey = new Map(before.map((r) => [keyOf(r), r]));
+              return ({ values }: TrackedRow<R>) => byKey.get(keyOf(values));
+          })()
+        : ({ origin }: TrackedRow<R>) =>
+              origin === undefined ? undefined : before[origin];
+
+    const matched = new Set<R>();
+    const changes = after.flatMap((row) => {
+        const from = matchOf(row);
+        if (from !== undefined) {
+            matched.add(from);
+        }
+        return from !== undefined && isSame(from, row.values)
+            ? []
+            : [entryOf(from, row.values)];
+    });
+    const deletions = before
+        .filter((r) => !matched.has(r))
+        .map((r) => entryOf(r, undefined));
+
+    return [...deletions, ...changes];
+};
+
+// Dates are kept as ISO strings, and big integers as their digits.
+const snapshot = codec({
+    name: "JSON",
+    type: "string",
+    decode: (v): Snapshot => JSON.parse(v),
+    encode: (v: Snapshot) =>
+        JSON.stringify(v, (_, value) =>
+            typeof value === "bigint" ? value.toString() : value
+        ),
+});
+
+const BATCH_SIZE = 500;
+
+/**
+ * Keep audit entries on a sheet, one row per changed record.
+ * The sheet is created with its header on the first write when it is addressed by name and missing.
+ * @param sheet Sheet id (the `gid` of the sheet URL) or sheet name.
+ * @param options.spreadsheet ID or URL of the spreadsheet holding the sheet; the active spreadsheet when omitted.
+ * @example
+ * const userQueryConfig = createQueryConfig(USER_SHEET_ID, { ... }, {
+ *     primaryKey: "User ID",
+ *     audit: auditSheet("Audit"),
+ * });
+ */
+export const auditSheet = (
+    sheet: number | string,
+    options?: { spreadsheet?: string }
+): AuditSink => {
+    const config = createQueryConfig(
+        sheet,
+        {
+            ["Timestamp"]: "Date",
+            ["User"]: "string",
+            ["Sheet"]: "string",
+            ["Key"]: column("string", { nullable: true }),
+            ["Operation"]: enumOf("insert", "update", "delete"),
+            ["Before"]: column(snapshot, { nullable: true }),
+            ["After"]: column(snapshot, { nullable: true }),
+        },
+        { spreadsheet: options?.spreadsheet }
+    );
+
+    const openSheet = (environment: SheetQueryEnvironment) => {
+        try {
+            const found = locateSheet(environment, config);
+            if (found.getLastColumn() > 0) {
+                return found;
+            }
+        } catch (error) {
+            if (!(error instanceof SheetNotFoundError)) {
+                throw error;
+            }
+        }
+
+        provisionSheet(config, environment);
+        return locateSheet(environment, config);
+    };
+
+    const write: AuditSink["write"] = (entries, environment) => {
+        const target = openSheet(environment);
+        const width = target.getLastColumn();
+        const headers = headersOf(
+            target.getName(),
+            target.getRange(1, 1, 1, width).getValues()[0]
+        );
+        const { columnIndices, names, types } = layoutOf(
+            headers,
+            config.columnTypes,
+            target.getName(),
+            false
+        );
+        const blank = Array.from({ length: width }, () => "");
+
+        const rows = entries.map((e) =>
+            recordIntoRawValues(
+                {
+                    ["Timestamp"]: e.timestamp,
+                    ["User"]: e.user,
+                    ["Sheet"]: e.sheet,
+                    ["Key"]: e.key,
+                    ["Operation"]: e.operation,
+                    ["Before"]: e.before,
+                    ["After"]: e.after,
+                },
+                columnIndices,
+                blank
+            )
+        );
+        const context: CodingContext = { timeZone: environment.getTimeZone() };
+        const encoded = encodeRows(rows, types, names, context);
+        if (encoded.isErr()) {
+            throw encoded.error;
+        }
+
+        const first = target.getLastRow() + 1;
+        ensureRows(target, first + rows.length - 1);
+        target.getRange(first, 1, rows.length, width).setValues(encoded.value);
+    };
+
+    const history: AuditSink["history"] = (sheetName, key, environment) => {
+        let cursor;
+        try {
+            cursor = openCursor(config, environment);
+        } catch (error) {
+            if (error instanceof SheetNotFoundError) {
+                return [];
+            }
+            throw error;
+        }
+
+        const entries: AuditEntry[] = [];
+        while (!cursor.done()) {
+            cursor
+                .read(BATCH_SIZE)
+                .filter((r) => r["Sheet"] === sheetName && r["Key"] === key)
+                .forEach((r) =>
+                    entries.push({
+                        timestamp: r["Timestamp"],
+                        user: r["User"],
+                        sheet: r["Sheet"],
+                        key: r["Key"],
+                        operation: r["Operation"],
+                        before: r["Before"],
+                        after: r["After"],
+                    })
+                );
+        }
+        return entries;
+    };
+
+    return { write, history };
+};
@@ -0,0 +1,146 @@
+import { isSameRow } from "./diff";
+import { SheetQueryEnvironment } from "./environment";
+import { ConflictRow, InvalidConfigError } from "./errors";
+import { recordedSchemaVersion } from "./migrations";
+import { SheetLike } from "./types/backend";
+import { AnySheetQueryConfig } from "./types/config";
+import { SheetValueType } from "./types/sheetValue";
+
+type Grid = SheetValueType[][];
+
+export type ReadCache = {
+    /**
+     * Every row of the sheet, header included, from the cache,
+     * or from `load` when nothing is cached, which then fills the cache.
+     */
+    read(load: () => Grid): Grid;
+    /**
+     * Drop the cached rows, so the next read goes to the sheet.
+     */
+    invalidate(): void;
+};
+
+const DEFAULT_TTL = 600;
+const MAX_TTL = 21600;
+
+// CacheService rejects values over 100KB, and a UTF-16 code unit takes up to 3 bytes in UTF-8.
+const CHUNK_LENGTH = 30000;
+
+const isHighSurrogate = (code: number) => code >= 0xd800 && code <= 0xdbff;
+
+// Chunks never end between the halves of a surrogate pair, which would not survive the cache.
+const chunk = (text: string): string[] => {
+    const chunks: string[] = [];
+    let start = 0;
+    while (start < text.length) {
+        const end = Math.min(start + CHUNK_LENGTH, text.length);
+        const cut =
+            end < text.length && isHighSurrogate(text.charCodeAt(end - 1))
+                ? end - 1
+                : end;
+        chunks.push(text.slice(start, cut));
+        start = cut;
+    }
+    return chunks;
+};
+
+type StoredCell = Exclude<SheetValueType, Date> | { readonly date: number };
+
+const serialize = (grid: Grid) =>
+    JSON.stringify(
+        grid.map((row) =>
+            row.map((cell): StoredCell =>
+                cell instanceof Date ? { date: cell.getTime() } : cell
+            )
+        )
+    );
+
+const deserialize = (text: string): Grid =>
+    (JSON.parse(text) as StoredCell[][]).map((row) =>
+        row.map((cell) =>
+            typeof cell === "object" ? new Date(cell.date) : cell
+        )
+    );
+
+/**
+ * Read cache of the sheet of `config`, or `undefined` when the config does not enable one.
+ * Entries are keyed by sheet and by the schema version recorded for it, so migrating a sheet
+ * leaves the rows cached before behind.
+ * Changes made outside the query layer, such as edits in the spreadsheet UI,
+ * are only seen once the entry expires; see `findStaleRows` for what commits do about them.
+ */
+export const readCacheOf = (
+    config: AnySheetQueryConfig,
+    sheet: SheetLike,
+    environment: SheetQueryEnvironment
+): ReadCache | undefined => {
+    if (config.cache === undefined) {
+        return undefined;
+    }
+
+    const ttl = config.cache.ttl ?? DEFAULT_TTL;
+    if (!Number.isInteger(ttl) || ttl < 1 || ttl > MAX_TTL) {
+        throw new InvalidConfigError(
+            sheet.getName(),
+            `cache.ttl must be an integer from 1 to ${MAX_TTL}, got ${ttl}`
+        );
+    }
+
+    const cache = environment.getCache();
+    const key = `spread-sheet-query.rows.${environment
+        .getSpreadsheet(config.spreadsheet)
+        .getId()}.${sheet.getSheetId()}.${recordedSchemaVersion(
+        config,
+        sheet,
+        environment
+    )}`;
+    const chunkKeys = (count: number) =>
+        Array.from({ length: count }, (_, i) => `${key}.${i}`);
+
+    const read = (load: () => Grid) => {
+        // The entry under `key` holds the number of chunks.
+        const count = Number(cache.get(key) ?? 0);
+        if (count > 0) {
+            const keys = chunkKeys(count);
+            const chunks = cache.getAll(keys);
+            // Entries can be evicted one by one, so a missing chunk makes a miss.
+            if (keys.every((k) => typeof chunks[k] === "string")) {
+                return deserialize(keys.map((k) => chunks[k]).join(""));
+            }
+        }
+
+        const grid = load();
+        const chunks = chunk(serialize(grid));
+        try {
+            cache.putAll(
+                chunkKeys(chunks.length).reduce(
+                    (acc, k, i) => ({ ...acc, [k]: chunks[i] }),
+                    { [key]: String(chunks.length) }
+                ),
+                ttl
+            );
+        } catch (error) {
+            // A sheet too large for the cache is read from the sheet every time.
+            console.warn(error);
+        }
+        return grid;
+    };
+
+    return {
+        read,
+        invalidate: () => cache.remove(key),
+    };
+};
+
+/**
+ * Rows of the sheet that differ from the cached ones, such as rows edited in the spreadsheet UI.
+ * @param cached Every row read from the cache, header included.
+ * @param latest Every row read from the sheet since.
+ */
+export const findStaleRows = (
+    cached: readonly unknown[][],
+    latest: readonly unknown[][]
+): ConflictRow[] =>
+    Array.from({ length: Math.max(cached.length, latest.length) }, (_, i) => i)
+        .filter((i) => !isSameRow(cached[i] ?? [], latest[i] ?? []))
+        .map((i) => ({ row: i + 1, expected: undefined, actual: undefined }));
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { codec, enumOf, json, list } from "./codecs";
+import { createQueryConfig } from "./config";
+import {
+    FakeSheetSeed,
+    createFakeEnvironment,
+    createFakeSpreadsheet,
+} from "./fake";
+import { createSheetQuery } from "./index";
+
+type Theme = { theme: string };
+
+const isTheme = (v: unknown): v is Theme =>
+    typeof v === "object" && v !== null && "theme" in v;
+
+describe("json", () => {
+    it("reads back what it wrote", () => {
+        const settings = json(isTheme);
+
+        expect(settings.decode(settings.encode({ theme: "dark" }))).toEqual({
+            theme: "dark",
+        });
+    });
+
+    it("rejects text that is not JSON or not of the shape of the guard", () => {
+        const settings = json(isTheme);
+
+        expect(() => settings.decode("{theme")).toThrow();
+        expect(() => settings.decode('{"mode":"dark"}')).toThrow(
+            '{"mode":"dark"} is not of the expected shape'
+        );
+        expect(() => settings.encode({ mode: "dark" } as never)).toThrow(
+            '{"mode":"dark"} is not of the expected shape'
+        );
+    });
+});
+
+describe("enumOf", () => {
+    it("accepts only its values, on read and on write", () => {
+        const status = enumOf("active", "retired");
+
+        expect(status.decode("active")).toBe("active");
+        expect(() => status.decode("gone")).toThrow(
+            '"gone" is not one of the values'
+        );
+        expect(() => status.encode("gone" as never)).toThrow(
+            '"gone" is not one of the values'
+        );
+        expect(status.name).toBe('one of "active", "retired"');
+    });
+});
+
+describe("list", () => {
+    it("reads trimmed items, and an empty cell as no item", () => {
+        const tags = list();
+
+        expect(tags.decode(" a, b ,c")).toEqual(["a", "b", "c"]);
+        expect(tags.decode(" ")).toEqual([]);
+        expect(tags.decode(tags.encode(["a", "b"]))).toEqual(["a", "b"]);
+        expect(list(";").encode(["a,b", "c"])).toBe("a,b;c");
+    });
+
+    it("rejects items that would not read back the same", () => {
+        const tags = list();
+
+        expect(() => tags.encode(["a,b"])).toThrow(
+            '"a,b" cannot be stored as an item'
+        );
+        expect(() => tags.encode([" a"])).toThrow();
+        expect(() => tags.encode([""])).toThrow();
+    });
+});
+
+describe("codec", () => {
+    const config = createQueryConfig("Orders", {
+        ["ID"]: "string",
+        ["Amount"]: codec({
+            name: "amount in cents",
+            type: "number",
+            decode: (v) => v / 100,
+            encode: (v: number) => Math.round(v * 100),
+        }),
+        ["Status"]: enumOf("open", "paid"),
+        ["Tags"]: list(),
+    });
+
+    const setup = (values: FakeSheetSeed["values"]) => {
+        const spreadsheet = createFakeSpreadsheet([{ name: "Orders", values }]);
+        const environment = createFakeEnvironment(spreadsheet);
+        const [sheet] = spreadsheet.getSheets();
+        return {
+            sheet,
+            orders: () => createSheetQuery(config, environment),
+        };
+    };
+
+    it("writes records through the codec of each column and reads them back", () => {
+        const { sheet, orders } = setup([["ID", "Amount", "Status", "Tags"]]);
+
+        const writer = orders();
+        writer.append([
+            {
+                ["ID"]: "1",
+                ["Amount"]: 12.34,
+                ["Status"]: "open",
+                ["Tags"]: ["gift", "rush"],
+            },
+        ]);
+        writer.commit();
+
+        expect(sheet.dump()[1]).toEqual(["1", 1234, "open", "gift,rush"]);
+        expect(orders().read()).toEqual([
+            {
+                ["ID"]: "1",
+                ["Amount"]: 12.34,
+                ["Status"]: "open",
+                ["Tags"]: ["gift", "rush"],
+            },
+        ]);
+    });
+
+    it("reports cells the codec rejects by the name of the codec", () => {
+        const { orders } = setup([
+            ["ID", "Amount", "Status", "Tags"],
+            ["1", 1234, "shipped", ""],
+        ]);
+
+        expect(() => orders().read()).toThrow(
+            expect.objectContaining({
+                code: "TYPE_MISMATCH",
+                details: {
+                    issues: [
+                        {
+                            row: 2,
+                            header: "Status",
+                            expected: 'one of "open", "paid"',
+                            actual: "shipped",
+                        },
+                    ],
+                },
+            })
+        );
+    });
+});
@@ -0,0 +1,95 @@
+import { Codec } from "./types/config";
+import { ToActualType, TypeName } from "./types/utils";
+
+/**
+ * Declare a codec for values the primitive types cannot hold.
+ * @example
+ * const cents = codec({
+ *     name: "amount in cents",
+ *     type: "number",
+ *     decode: (v) => v / 100,
+ *     encode: (v: number) => Math.round(v * 100),
+ * });
+ */
+export const codec = <V, T extends TypeName>(options: {
+    readonly name: string;
+    readonly type: T;
+    readonly decode: (value: ToActualType<T>) => V;
+    readonly encode: (value: V) => ToActualType<T>;
+}): Codec<V, T> => ({ kind: "codec", ...options });
+
+/**
+ * Values stored as JSON text.
+ * @param guard Check run on every parsed value; any JSON value is accepted when omitted.
+ * @example
+ * ["Settings"]: json((v): v is { theme: string } => typeof v === "object" && v !== null)
+ */
+export const json = <V = unknown>(
+    guard?: (value: unknown) => value is V
+): Codec<V, "string"> =>
+    codec({
+        name: "JSON",
+        type: "string",
+        decode: (v) => {
+            const parsed: unknown = JSON.parse(v);
+            if (guard !== undefined && !guard(parsed)) {
+                throw new Error(`${v} is not of the expected shape`);
+            }
+            return parsed as V;
+        },
+        encode: (v: V) => {
+            if (guard !== undefined && !guard(v)) {
+                throw new Error(
+                    `${JSON.stringify(v)} is not of the expected shape`
+                );
+            }
+            return JSON.stringify(v);
+        },
+    });
+
+/**
+ * One of the given strings, rejected otherwise both on read and on write.
+ * @example
+ * ["Status"]: enumOf("active", "suspended", "retired")
+ */
+export const enumOf = <const Values extends readonly string[]>(
+    ...values: Values
+): Codec<Values[number], "string"> => {
+    const check = (v: string) => {
+        if (!values.includes(v)) {
+            throw new Error(`${JSON.stringify(v)} is not one of the values`);
+        }
+        return v as Values[number];
+    };
+
+    return codec({
+        name: `one of ${values.map((v) => JSON.stringify(v)).join(", ")}`,
+        type: "string",
+        decode: check,
+        encode: check,
+    });
+};
+
+/**
+ * Strings joined by `delimiter` in a single cell. Items are trimmed and an empty cell is an empty list.
+ * @example
+ * ["Tags"]: list()
+ */
+export const list = (delimiter = ","): Codec<string[], "string"> =>
+    codec({
+        name: `list separated by ${JSON.stringify(delimiter)}`,
+        type: "string",
+        decode: (v) =>
+            v.trim() === "" ? [] : v.split(delimiter).map((s) => s.trim()),
+        encode: (v: string[]) => {
+            const invalid = v.find(
+                (s) => s.includes(delimiter) || s.trim() !== s || s === ""
+            );
+            if (invalid !== undefined) {
+                throw new Error(
+                    `${JSON.stringify(invalid)} cannot be stored as an item`
+                );
+            }
+            return v.join(delimiter);
+        },
+    });
@@ -0,0 +1,236 @@
+import { Err, Ok, Result } from "@/utils/result";
+import { parseDateString } from "../dates";
+import { acceptsEmpty, emptyValueOf, specOf } from "./columns";
+import { CellIssue, TypeMismatchError } from "./errors";
+import { HEADER_ROWS } from "./header";
+import { ColumnDefinition } from "./types/config";
+import { SheetValueType } from "./types/sheetValue";
+import { ToActualType, TypeName } from "./types/utils";
+
+const NUMERIC_REGEX = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i;
+const INTEGER_REGEX = /^[+-]?\d+$/;
+
+export type CodingContext = {
+    /**
+     * Time zone used for dates written without an offset, usually the script time zone.
+     */
+    readonly timeZone: string;
+};
+
+type Decoder = (value: SheetValueType, context: CodingContext) => unknown;
+
+const INVALID = Symbol("invalid");
+
+/**
+ * Lossless conversions from a raw cell value into each type.
+ * A decoder returns `INVALID` when the value cannot represent the type.
+ */
+const decoders: { [key in TypeName]: Decoder } = {
+    string: (v) =>
+        typeof v === "string"
+            ? v
+            : typeof v === "number" || typeof v === "boolean"
+            ? String(v)
+            : INVALID,
+    number: (v) => {
+        if (typeof v === "number") {
+            return Number.isFinite(v) ? v : INVALID;
+        }
+        if (typeof v === "string" && NUMERIC_REGEX.test(v.trim())) {
+            return Number(v.trim());
+        }
+        return INVALID;
+    },
+    boolean: (v) => {
+        if (typeof v === "boolean") {
+            return v;
+        }
+        if (typeof v === "string") {
+            const lowered = v.trim().toLowerCase();
+            if (lowered === "true") return true;
+            if (lowered === "false") return false;
+        }
+        return INVALID;
+    },
+    undefined: (v) => (v === "" ? undefined : INVALID),
+    bigint: (v) => {
+        if (typeof v === "number" && Number.isInteger(v)) {
+            return BigInt(v);
+        }
+        if (typeof v === "string" && INTEGER_REGEX.test(v.trim())) {
+            return BigInt(v.trim());
+        }
+        return INVALID;
+    },
+    Date: (v, { timeZone }) => {
+        if (v instanceof Date) {
+            return Number.isNaN(v.getTime()) ? INVALID : v;
+        }
+        if (typeof v === "string") {
+            return parseDateString(v, timeZone) ?? INVALID;
+        }
+        return INVALID;
+    },
+    // Neither can be held by a cell.
+    symbol: () => INVALID,
+    object: () => INVALID,
+};
+
+/**
+ * Parse a raw cell value as the given type.
+ * @returns `Ok` with the coerced value, or `Err` when the value is not convertible.
+ */
+export const decodeCell = <T extends TypeName>(
+    value: SheetValueType,
+    type: T,
+    context: CodingContext
+): Result<ToActualType<T>, Error> => {
+    const decoded = decoders[type](value, context);
+    if (decoded === INVALID) {
+        return Err(
+            new Error(`${JSON.stringify(value)} is not convertible to ${type}`)
+        );
+    }
+    return Ok(decoded as ToActualType<T>);
+};
+
+/**
+ * Parse every cell of the data rows against the type of its column.
+ * @param values Data rows, without the header row.
+ * @param types Type of each column, in the order of the cells;
+ *              cells of `undefined` columns are kept as they are.
+ *              Empty cells of columns declared with `column` read as their empty value,
+ *              and cells of codec columns are passed through the codec.
+ * @param headers Header of each column, in the order of the cells.
+ * @param context Settings shared by every cell.
+ * @param firstRow Row number of the first of `values` on the sheet, for error reports;
+ *                 the row right below the header when omitted.
+ * @returns `Ok` with the coerced rows, or `Err` listing every cell that failed.
+ */
+export const decodeRows = (
+    values: ReadonlyArray<ReadonlyArray<SheetValueType>>,
+    types: ReadonlyArray<ColumnDefinition | undefined>,
+    headers: ReadonlyArray<string>,
+    context: CodingContext,
+    firstRow = HEADER_ROWS + 1
+): Result<unknown[][], TypeMismatchError> => {
+    const issues: CellIssue[] = [];
+
+    const rows = values.map((row, r) =>
+        types.map((definition, c) => {
+            if (definition === undefined) {
+                return row[c];
+            }
+
+            const spec = specOf(definition);
+            if (row[c] === "" && acceptsEmpty(spec)) {
+                return emptyValueOf(spec);
+            }
+
+            const { type, codec } = spec;
+            const result = decodeCell(row[c], type, context);
+            if (result.isOk()) {
+                if (codec === undefined) {
+                    return result.value;
+                }
+                try {
+                    return codec.decode(result.value);
+                } catch {
+                    // Reported below as any other cell of the wrong type.
+                }
+            }
+
+            issues.push({
+                row: firstRow + r,
+                header: headers[c],
+                expected: codec?.name ?? type,
+                actual: row[c],
+            });
+            return undefined;
+        })
+    );
+
+    if (issues.length > 0) {
+        return Err(new TypeMismatchError(issues));
+    }
+    return Ok(rows);
+};
+
+/**
+ * Convert a record value into what should be written to its cell.
+ * `null` and `undefined` leave the cell empty. Dates stay `Date` objects so the sheet stores a real date; date strings
+ * (e.g. ones that travelled through `apiHandler`) are parsed in the context time zone.
+ */
+export const encodeCell = (
+    value: unknown,
+    type: TypeName,
+    { timeZone }: CodingContext
+): unknown => {
+    if (value === null || value === undefined) {
+        return "";
+    }
+    if (type === "Date" && typeof value === "string") {
+        const date = parseDateString(value, timeZone);
+        if (date === undefined) {
+            throw new Error(`${JSON.stringify(value)} is not a date`);
+        }
+        return date;
+    }
+    if (typeof value === "bigint") {
+        return value.toString();
+    }
+    return value;
+};
+
+/**
+ * Convert record values into the cells to write, the reverse of `decodeRows`.
+ * @param rows Rows of record values, in the order of the cells.
+ * @param types Type of each column, in the order of the cells;
+ *              values of `undefined` columns are written as they are.
+ * @param headers Header of each column, in the order of the cells.
+ * @param context Settings shared by every cell.
+ * @returns `Ok` with the cells, or `Err` listing every value that cannot be written.
+ *          Rows are numbered as they will be on the sheet.
+ */
+export const encodeRows = (
+    rows: ReadonlyArray<ReadonlyArray<unknown>>,
+    types: ReadonlyArray<ColumnDefinition | undefined>,
+    headers: ReadonlyArray<string>,
+    context: CodingContext
+): Result<unknown[][], TypeMismatchError> => {
+    const issues: CellIssue[] = [];
+
+    const cells = rows.map((row, r) =>
+        types.map((definition, c) => {
+            if (definition === undefined) {
+                return row[c];
+            }
+
+            const { type, codec } = specOf(definition);
+            try {
+                return encodeCell(
+                    codec === undefined ||
+                        row[c] === null ||
+                        row[c] === undefined
+                        ? row[c]
+                        : codec.encode(row[c]),
+                    type,
+                    context
+                );
+            } catch {
+                issues.push({
+                    row: r + HEADER_ROWS + 1,
+                    header: headers[c],
+                    expected: codec?.name ?? type,
+                    actual: row[c],
+                });
+                return undefined;
+            }
+        })
+    );
+
+    if (issues.length > 0) {
+        return Err(new TypeMismatchError(issues));
+    }
+    return Ok(cells);
+};
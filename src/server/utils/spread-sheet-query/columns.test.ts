@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { list } from "./codecs";
+import { column, completeRecord, emptyValueOf } from "./columns";
+
+describe("emptyValueOf", () => {
+    it("gives each record a copy of an array default", () => {
+        const tags = column(list(), { default: [] });
+        const first = emptyValueOf(tags) as string[];
+        const second = emptyValueOf(tags) as string[];
+
+        first.push("new");
+
+        expect(second).toEqual([]);
+        expect(emptyValueOf(tags)).toEqual([]);
+    });
+});
+
+describe("completeRecord", () => {
+    it("fills left-out columns without sharing their defaults", () => {
+        const columnTypes = {
+            ["Name"]: "string",
+            ["Tags"]: column(list(), { default: [] }),
+        } as const;
+        const first = completeRecord<{ ["Tags"]: string[] }>(
+            { ["Name"]: "Alice" },
+            columnTypes
+        );
+        const second = completeRecord<{ ["Tags"]: string[] }>(
+            { ["Name"]: "Bob" },
+            columnTypes
+        );
+
+        first["Tags"].push("admin");
+
+        expect(second["Tags"]).toEqual([]);
+    });
+});
@@ -0,0 +1,110 @@
+import {
+    Codec,
+    ColumnDefinition,
+    ColumnSpec,
+    ColumnTypes,
+    ColumnValue,
+} from "./types/config";
+import { TypeName } from "./types/utils";
+
+/**
+ * Declare a column that may be left empty.
+ * @param options.optional Empty cells read as `undefined`.
+ * @param options.nullable Empty cells read as `null`.
+ * @param options.default Value empty cells read as, and missing values are inserted as.
+ * @example
+ * const userQueryConfig = createQueryConfig(USER_SHEET_ID, {
+ *     ["User ID"]: "string",
+ *     ["Nickname"]: column("string", { nullable: true }),
+ *     ["Is Employed"]: column("boolean", { default: false }),
+ *     ["Tags"]: column(list(), { default: [] }),
+ * });
+ */
+type ColumnOptions<V> = {
+    readonly optional?: boolean;
+    readonly nullable?: boolean;
+    // Readonly so a literal default such as `[]` is not rejected for being inferred as readonly.
+    readonly default?: Readonly<V>;
+};
+
+type Stored<D extends TypeName | Codec> = D extends Codec ? D["type"] : D;
+
+// Computed from the options alone, so the type of a config does not widen the flags to `boolean`.
+type ColumnSpecOf<
+    D extends TypeName | Codec,
+    Options extends ColumnOptions<ColumnValue<D>>
+> = ColumnSpec<
+    Stored<D>,
+    Options["optional"] extends true ? true : false,
+    Options["nullable"] extends true ? true : false,
+    Options extends { readonly default: infer V } ? V : undefined,
+    D extends Codec ? D : undefined
+>;
+
+const isCodec = (definition: ColumnDefinition): definition is Codec =>
+    typeof definition === "object" && "kind" in definition;
+
+export const column = <
+    D extends TypeName | Codec,
+    const Options extends ColumnOptions<ColumnValue<D>> = NonNullable<unknown>
+>(
+    definition: D,
+    options?: Options
+): ColumnSpecOf<D, Options> =>
+    ({
+        type: isCodec(definition) ? definition.type : definition,
+        codec: isCodec(definition) ? definition : undefined,
+        optional: options?.optional ?? false,
+        nullable: options?.nullable ?? false,
+        default: options?.default,
+    }) as ColumnSpecOf<D, Options>;
+
+export const specOf = (definition: ColumnDefinition): ColumnSpec =>
+    typeof definition === "string" || isCodec(definition)
+        ? column(definition)
+        : definition;
+
+export const typeOf = (definition: ColumnDefinition) => specOf(definition).type;
+
+/**
+ * Whether an empty cell is a legitimate value of the column rather than a missing one.
+ */
+export const acceptsEmpty = ({
+    optional,
+    nullable,
+    default: value,
+}: ColumnSpec) => optional || nullable || value !== undefined;
+
+// Deep copy of a default, as Apps Script has no structuredClone.
+const copyOf = (value: unknown): unknown =>
+    value instanceof Date
+        ? new Date(value.getTime())
+        : Array.isArray(value)
+        ? value.map(copyOf)
+        : typeof value === "object" && value !== null
+        ? Object.fromEntries(
+              Object.entries(value).map(([k, v]) => [k, copyOf(v)])
+          )
+        : value;
+
+/**
+ * Value an empty cell of the column reads as. Only meaningful when `acceptsEmpty`.
+ * A default is copied each time, so records never share an array or object.
+ */
+export const emptyValueOf = ({ nullable, default: value }: ColumnSpec) =>
+    value !== undefined ? copyOf(value) : nullable ? null : undefined;
+
+/**
+ * Fill the columns a record leaves out with their empty value.
+ */
+export const completeRecord = <R extends object>(
+    record: object,
+    columnTypes: ColumnTypes
+): R =>
+    Object.entries(columnTypes).reduce(
+        (acc, [name, definition]) =>
+            name in acc && (acc as Record<string, unknown>)[name] !== undefined
+                ? acc
+                : { ...acc, [name]: emptyValueOf(specOf(definition)) },
+        record
+    ) as R;
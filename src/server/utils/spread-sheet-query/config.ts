@@ -0,0 +1,80 @@
+import { AuditSink } from "./types/audit";
+import {
+    ColumnTypes,
+    PrimaryKey,
+    ReadCacheOptions,
+    Relations,
+    SheetQueryConfig,
+} from "./types/config";
+import { Migration } from "./types/migration";
+
+/**
+ * Declare a sheet by its schema. `columnTypes` gives the record type of the sheet
+ * and is what cells are checked and converted against on read and write.
+ * @param sheet Sheet id (the `gid` of the sheet URL) or sheet name.
+ * @param columnTypes Type of each column, by header name.
+ */
+export const createQueryConfig = <
+    CTs extends ColumnTypes,
+    const PK extends PrimaryKey<CTs> | undefined = undefined,
+    const Rel extends Relations<CTs> = NonNullable<unknown>
+>(
+    sheet: number | string,
+    columnTypes: CTs,
+    options?: {
+        /**
+         * ID or URL of the spreadsheet holding the sheet; the active spreadsheet when omitted.
+         */
+        spreadsheet?: string;
+        /**
+         * Column, or columns for a composite key, identifying each record.
+         */
+        primaryKey?: PK;
+        /**
+         * Records of other sheets referred to, declared with `belongsTo`.
+         */
+        relations?: Rel;
+        /**
+         * Versioned changes bringing older sheets to `columnTypes`, applied by `migrateSheets`.
+         */
+        migrations?: readonly Migration[];
+        /**
+         * Ignore columns of the sheet that are not declared, which commits leave as they are, formulas included.
+         */
+        tolerant?: boolean;
+        /**
+         * Keep the rows in CacheService between calls, dropped whenever they are committed.
+         * Only for sheets changed through this module; other edits are seen once the rows expire.
+         * Commits read the sheet itself, and are refused with a `ConflictError` when the cached rows are out of date.
+         */
+        cache?: boolean | ReadCacheOptions;
+        /**
+         * Record who inserted, updated or deleted each record on every commit,
+         * e.g. to `auditSheet("Audit")`.
+         */
+        audit?: AuditSink;
+        /**
+         * A "number" column counting the writes to each row, or a "Date" column holding the time of the last one.
+         * A commit is refused with a `ConflictError` when rows it would write over were changed since they were loaded,
+         * which lets `useSheetQuery` hold its lock only while committing (`optimistic: true`).
+         * @example
+         * ["Version"]: column("number", { default: 0 })
+         */
+        version?: keyof CTs & string;
+    }
+) => {
+    const cache = options?.cache ?? false;
+
+    return {
+        sheet,
+        spreadsheet: options?.spreadsheet,
+        columnTypes,
+        primaryKey: options?.primaryKey,
+        relations: options?.relations ?? {},
+        migrations: options?.migrations ?? [],
+        tolerant: options?.tolerant ?? false,
+        cache: cache === false ? undefined : cache === true ? {} : cache,
+        audit: options?.audit,
+        version: options?.version,
+    } as SheetQueryConfig<CTs, PK, Rel>;
+};
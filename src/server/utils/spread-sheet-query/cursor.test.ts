@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { createQueryConfig } from "./config";
+import { createFakeEnvironment, createFakeSpreadsheet } from "./fake";
+import { readPage, scanSheet } from "./index";
+
+const USERS = [
+    ["ID", "Name"],
+    ["1", "Alice"],
+    ["2", "Bob"],
+    ["3", "Carol"],
+    ["4", "Dave"],
+    ["5", "Eve"],
+];
+
+const userConfig = createQueryConfig("Users", {
+    ["ID"]: "string",
+    ["Name"]: "string",
+});
+
+const setup = (values = USERS) => {
+    let now = 0;
+    const spreadsheet = createFakeSpreadsheet([
+        { name: "Users", values: values.map((row) => row.slice()) },
+        { name: "Groups", values: [["ID"], ["1"], ["2"]] },
+    ]);
+    const environment = createFakeEnvironment(spreadsheet, {
+        now: () => now,
+    });
+    const [sheet] = spreadsheet.getSheets();
+    return {
+        environment,
+        sheet,
+        advance: (millis: number) => {
+            now += millis;
+        },
+    };
+};
+
+const idsOf = (records: readonly { ["ID"]: string }[]) =>
+    records.map((r) => r["ID"]);
+
+describe("readPage", () => {
+    it("reads the sheet a page at a time, the last without a next token", async () => {
+        const { environment } = setup();
+        const pages: string[][] = [];
+        let token: string | undefined;
+
+        do {
+            const result = await readPage(userConfig, {
+                environment,
+                pageSize: 2,
+                token,
+            });
+            const page = result.unwrapOr({ records: [], next: undefined });
+            pages.push(idsOf(page.records));
+            token = page.next;
+        } while (token !== undefined);
+
+        expect(pages).toEqual([["1", "2"], ["3", "4"], ["5"]]);
+    });
+
+    it("ends on a page filled to the last row", async () => {
+        const { environment } = setup(USERS.slice(0, 5));
+
+        const first = await readPage(userConfig, { environment, pageSize: 2 });
+        const second = await readPage(userConfig, {
+            environment,
+            pageSize: 2,
+            token: first.unwrapOr({ records: [], next: undefined }).next,
+        });
+
+        expect(second.isOk() && second.value.records).toHaveLength(2);
+        expect(second.isOk() && second.value.next).toBeUndefined();
+    });
+
+    it("reads an empty last page once the rows of a token were deleted", async () => {
+        const { environment, sheet } = setup();
+        const first = await readPage(userConfig, { environment, pageSize: 3 });
+        sheet.deleteRows(3, 4);
+
+        const next = await readPage(userConfig, {
+            environment,
+            pageSize: 3,
+            token: first.unwrapOr({ records: [], next: undefined }).next,
+        });
+
+        expect(next.isOk() && next.value).toEqual({
+            records: [],
+            next: undefined,
+        });
+    });
+
+    it("rejects a token of another sheet, or one it did not issue", async () => {
+        const { environment } = setup();
+        const groupConfig = createQueryConfig("Groups", { ["ID"]: "string" });
+        const first = await readPage(groupConfig, { environment, pageSize: 1 });
+        const token = first.unwrapOr({ records: [], next: undefined }).next;
+
+        const other = await readPage(userConfig, { environment, token });
+        const malformed = await readPage(userConfig, {
+            environment,
+            token: '{"row":1}',
+        });
+
+        expect(other.isErr() && other.error).toMatchObject({
+            code: "INVALID_CONFIG",
+            message: expect.stringContaining("issued for another sheet"),
+        });
+        expect(malformed.isErr() && malformed.error).toMatchObject({
+            code: "INVALID_CONFIG",
+            message: expect.stringContaining("Malformed cursor token"),
+        });
+    });
+});
+
+describe("scanSheet", () => {
+    it("stops before a batch that would not fit the budget, and resumes from its token", async () => {
+        const { environment, advance } = setup();
+        const visited: string[] = [];
+        const visit = (user: { ["ID"]: string }) => {
+            visited.push(user["ID"]);
+            advance(100);
+        };
+
+        const first = await scanSheet(userConfig, visit, {
+            environment,
+            batchSize: 2,
+            budgetInMillis: 300,
+        });
+        const report = first.unwrapOr({ visited: 0, next: undefined });
+        const rest = await scanSheet(userConfig, visit, {
+            environment,
+            batchSize: 2,
+            token: report.next,
+        });
+
+        expect(report.visited).toBe(2);
+        expect(rest.isOk() && rest.value).toEqual({
+            visited: 3,
+            next: undefined,
+        });
+        expect(visited).toEqual(["1", "2", "3", "4", "5"]);
+    });
+});
@@ -0,0 +1,147 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { CodingContext, decodeRows } from "./coerce";
+import { SheetQueryEnvironment } from "./environment";
+import { InvalidConfigError } from "./errors";
+import { HEADER_ROWS } from "./header";
+import { headersOf, layoutOf, rowIntoRecord } from "./layout";
+import { locateSheet } from "./locate";
+import { ColumnTypes, SheetQueryConfig, SheetRecord } from "./types/config";
+
+export type SheetCursor<R> = {
+    /**
+     * Read up to `count` more records, in sheet order.
+     * @returns Records read; empty once every row was read.
+     */
+    read(count: number): R[];
+
+    /**
+     * Whether every row has been read.
+     */
+    done(): boolean;
+
+    /**
+     * Opaque token resuming right after the records read so far, in a later execution.
+     */
+    token(): string;
+};
+
+export type ScanReport = {
+    readonly visited: number;
+    /**
+     * Token to resume from, or `undefined` when the sheet was read to the end.
+     */
+    readonly next: string | undefined;
+};
+
+export type SheetPage<R> = {
+    readonly records: R[];
+    /**
+     * Token of the next page, or `undefined` on the last page.
+     */
+    readonly next: string | undefined;
+};
+
+type TokenContent = {
+    /**
+     * Spreadsheet ID and sheet id the token was issued for.
+     */
+    readonly sheet: string;
+    /**
+     * 1-based row to be read next.
+     */
+    readonly row: number;
+};
+
+const parseToken = (token: string, identity: string, sheetName: string) => {
+    let content: unknown;
+    try {
+        content = JSON.parse(token);
+    } catch {
+        content = undefined;
+    }
+
+    const { sheet, row } = (content ?? {}) as Partial<TokenContent>;
+    if (
+        typeof row !== "number" ||
+        !Number.isInteger(row) ||
+        row <= HEADER_ROWS
+    ) {
+        throw new InvalidConfigError(sheetName, "Malformed cursor token");
+    }
+    if (sheet !== identity) {
+        throw new InvalidConfigError(
+            sheetName,
+            "The cursor token was issued for another sheet"
+        );
+    }
+    return row;
+};
+
+/**
+ * Open a cursor reading the records of a sheet a batch of rows at a time,
+ * rather than loading the whole sheet as `createSheetQuery` does.
+ * Rows inserted or deleted above the cursor between two executions shift what a token resumes at.
+ * @param token Token of an earlier cursor on the same sheet, to resume from; the first row when omitted.
+ */
+export const openCursor = <CTs extends ColumnTypes>(
+    config: SheetQueryConfig<CTs, any, any>,
+    environment: SheetQueryEnvironment,
+    token?: string
+): SheetCursor<SheetRecord<CTs>> => {
+    const sheet = locateSheet(environment, config);
+    const identity = `${environment
+        .getSpreadsheet(config.spreadsheet)
+        .getId()}.${sheet.getSheetId()}`;
+
+    const lastRow = sheet.getLastRow();
+    const width = sheet.getLastColumn();
+    const headers =
+        width === 0
+            ? []
+            : headersOf(
+                  sheet.getName(),
+                  sheet.getRange(1, 1, HEADER_ROWS, width).getValues()[0]
+              );
+    const { columnIndices, names, types } = layoutOf(
+        headers,
+        config.columnTypes,
+        sheet.getName(),
+        config.tolerant
+    );
+    const context: CodingContext = { timeZone: environment.getTimeZone() };
+
+    let next =
+        token === undefined
+            ? HEADER_ROWS + 1
+            : parseToken(token, identity, sheet.getName());
+
+    return {
+        read: (count) => {
+            if (!Number.isInteger(count) || count < 1) {
+                throw new InvalidConfigError(
+                    sheet.getName(),
+                    `Cannot read ${count} rows at a time`
+                );
+            }
+
+            const rows = Math.min(count, lastRow - next + 1);
+            if (rows < 1) {
+                return [];
+            }
+
+            const values = sheet.getRange(next, 1, rows, width).getValues();
+            const decoded = decodeRows(values, types, names, context, next);
+            if (decoded.isErr()) {
+                throw decoded.error;
+            }
+
+            next += rows;
+            return decoded.value.map((row) =>
+                rowIntoRecord<CTs, string[]>(row, columnIndices)
+            );
+        },
+        done: () => next > lastRow,
+        token: () =>
+            JSON.stringify({ sheet: identity, row: next } as TokenContent),
+    };
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { applyCommitPlan, computeCommitPlan, revertCommitPlan } from "./diff";
+import { createFakeSpreadsheet } from "./fake";
+
+// As many rows as a new sheet has, so deleting any leaves the sheet smaller.
+const FULL = [
+    ["ID", "Name"],
+    ...Array.from({ length: 999 }, (_, i) => [String(i), `User ${i}`]),
+];
+
+const sheetOf = (values: unknown[][]) => {
+    const [sheet] = createFakeSpreadsheet([
+        { values: values.map((row) => row.slice()) as string[][] },
+    ]).getSheets();
+    return sheet;
+};
+
+describe("revertCommitPlan", () => {
+    const data = FULL.slice(1);
+    const tracked = (rows: string[][]) =>
+        rows.map((values) => ({
+            origin: data.findIndex((d) => d[0] === values[0]),
+            values,
+        }));
+
+    it("puts back the rows deleted from a full sheet", () => {
+        const sheet = sheetOf(FULL);
+        const plan = computeCommitPlan(
+            data,
+            tracked(data.filter((_, i) => i < 10 || i >= 20 || i === 15))
+        );
+        applyCommitPlan(sheet, plan, 2);
+        expect(sheet.getMaxRows()).toBe(991);
+
+        revertCommitPlan(sheet, plan, data, 2);
+
+        expect(sheet.dump()).toEqual(FULL);
+    });
+
+    it("puts back the rows deleted before a write failed", () => {
+        const sheet = sheetOf(FULL);
+        const plan = computeCommitPlan(
+            data,
+            tracked(data.filter((_, i) => i < 10 || i >= 20 || i === 15))
+        );
+        sheet.deleteRows(plan.deletions[0].start + 2, plan.deletions[0].count);
+
+        revertCommitPlan(sheet, plan, data, 2, undefined, 1);
+
+        expect(sheet.dump()).toEqual(FULL);
+    });
+
+    it("clears the rows written below the original ones", () => {
+        const original = FULL.slice(1, 3);
+        const sheet = sheetOf([FULL[0], ...original]);
+        const plan = computeCommitPlan(original, [
+            ...original.map((values, origin) => ({ origin, values })),
+            { origin: undefined, values: ["new", "Row"] },
+        ]);
+        applyCommitPlan(sheet, plan, 2);
+
+        revertCommitPlan(sheet, plan, original, 2);
+
+        expect(sheet.dump()).toEqual([FULL[0], ...original]);
+    });
+
+    it("writes only the rows and columns the plan wrote", () => {
+        const original = [
+            ["1", "Alice", "=B2"],
+            ["2", "Bob", "=B3"],
+        ];
+        const sheet = sheetOf([["ID", "Name", "Calc"], ...original]);
+        const plan = computeCommitPlan(original, [
+            { origin: 0, values: ["1", "Alicia", "=B2"] },
+            { origin: 1, values: original[1] },
+        ]);
+        applyCommitPlan(sheet, plan, 3, [0, 1]);
+        // Stand in for formulas computing new values after the load.
+        sheet.getRange(2, 3, 2, 1).setValues([["Alicia"], ["Bob"]]);
+
+        revertCommitPlan(sheet, plan, original, 3, [0, 1]);
+
+        expect(sheet.dump()).toEqual([
+            ["ID", "Name", "Calc"],
+            ["1", "Alice", "Alicia"],
+            ["2", "Bob", "Bob"],
+        ]);
+    });
+});
+
+describe("applyCommitPlan", () => {
+    it("adds rows to a full sheet for the inserted records", () => {
+        const sheet = sheetOf(FULL);
+        const data = FULL.slice(1);
+        const rows = [
+            ...data.map((values, origin) => ({ origin, values })),
+            { origin: undefined, values: ["new", "Row"] },
+        ];
+
+        applyCommitPlan(sheet, computeCommitPlan(data, rows), 2);
+
+        expect(sheet.dump()).toEqual([...FULL, ["new", "Row"]]);
+    });
+});
@@ -0,0 +1,300 @@
+import { HEADER_ROWS } from "./header";
+import { SheetLike } from "./types/backend";
+
+/**
+ * A data row together with the index it had in the loaded snapshot,
+ * or `undefined` when the row did not exist on the sheet yet.
+ */
+export type TrackedRow<V> = {
+    readonly origin: number | undefined;
+    readonly values: V;
+};
+
+export type CommitSummary = {
+    readonly inserted: number;
+    readonly updated: number;
+    readonly deleted: number;
+};
+
+type RowBlock = {
+    /**
+     * 0-based index among the data rows.
+     */
+    readonly start: number;
+    readonly rows: unknown[][];
+};
+
+type RowSpan = {
+    /**
+     * 0-based index among the data rows.
+     */
+    readonly start: number;
+    readonly count: number;
+};
+
+export type CommitPlan = {
+    /**
+     * Rows to be removed from the sheet, bottom-most first so earlier spans keep their position.
+     */
+    readonly deletions: readonly RowSpan[];
+    /**
+     * Changed rows, positioned after the deletions.
+     */
+    readonly updates: readonly RowBlock[];
+    readonly insertion: RowBlock | undefined;
+    /**
+     * Rows left over at the bottom, which are cleared instead of removed
+     * so the sheet never loses all of its non-frozen rows.
+     */
+    readonly clear: RowSpan | undefined;
+    readonly summary: CommitSummary;
+};
+
+export const isSameCell = (a: unknown, b: unknown) =>
+    a instanceof Date && b instanceof Date
+        ? a.getTime() === b.getTime()
+        : a === b;
+
+export const isSameRow = (a: readonly unknown[], b: readonly unknown[]) =>
+    a.length === b.length && a.every((v, i) => isSameCell(v, b[i]));
+
+const groupConsecutive = (indices: readonly number[]) =>
+    indices.reduce((spans, index) => {
+        const last = spans[spans.length - 1];
+        if (last !== undefined && last.start + last.count === index) {
+            return [...spans.slice(0, -1), { ...last, count: last.count + 1 }];
+        }
+        return [...spans, { start: index, count: 1 }];
+    }, [] as RowSpan[]);
+
+/**
+ * Work out the minimal set of writes turning `snapshot` into `rows`.
+ * @param snapshot Encoded data rows as they were loaded.
+ * @param rows Encoded data rows to be committed, tracked to their snapshot index.
+ */
+export const computeCommitPlan = (
+    snapshot: readonly unknown[][],
+    rows: readonly TrackedRow<unknown[]>[]
+): CommitPlan => {
+    const kept = new Set(
+        rows
+            .map(({ origin }) => origin)
+            .filter((o): o is number => o !== undefined && o < snapshot.length)
+    );
+    const removed = snapshot.map((_, i) => i).filter((i) => !kept.has(i));
+
+    // Removed rows that reach the bottom of the sheet are reused or cleared instead.
+    let trailing = 0;
+    while (
+        trailing < removed.length &&
+        removed[removed.length - 1 - trailing] ===
+            snapshot.length - 1 - trailing
+    ) {
+        trailing++;
+    }
+    const deletions = groupConsecutive(
+        removed.slice(0, removed.length - trailing)
+    ).reverse();
+
+    const survivors = snapshot.filter((_, i) => kept.has(i));
+
+    const changed = rows
+        .slice(0, survivors.length)
+        .map((row, i) => (isSameRow(row.values, survivors[i]) ? -1 : i))
+        .filter((i) => i >= 0);
+    const updates = groupConsecutive(changed).map(({ start, count }) => ({
+        start,
+        rows: rows.slice(start, start + count).map(({ values }) => values),
+    }));
+
+    const inserted = rows.slice(survivors.length).map(({ values }) => values);
+    const insertion =
+        inserted.length > 0
+            ? { start: survivors.length, rows: inserted }
+            : undefined;
+
+    const occupied = survivors.length + trailing;
+    const clear =
+        rows.length < occupied
+            ? { start: rows.length, count: occupied - rows.length }
+            : undefined;
+
+    return {
+        deletions,
+        updates,
+        insertion,
+        clear,
+        summary: {
+            inserted: inserted.length,
+            updated: changed.length,
+            deleted: removed.length,
+        },
+    };
+};
+
+/**
+ * Add rows at the bottom of the sheet until it has `rows` of them.
+ * Ranges past the last row of the sheet do not exist, and deleting rows leaves fewer of them.
+ */
+export const ensureRows = (sheet: SheetLike, rows: number) => {
+    const maxRows = sheet.getMaxRows();
+    if (maxRows < rows) {
+        sheet.insertRowsAfter(maxRows, rows - maxRows);
+    }
+};
+
+const toRow = (index: number) => index + HEADER_ROWS + 1;
+
+const spansOf = (width: number, columns?: readonly number[]) =>
+    groupConsecutive(columns ?? Array.from({ length: width }, (_, i) => i));
+
+// Write `rows` from the data row `start` down, in the columns of `spans` only.
+const writeRows = (
+    sheet: SheetLike,
+    start: number,
+    rows: readonly unknown[][],
+    spans: readonly RowSpan[]
+) => {
+    spans.forEach((span) => {
+        sheet
+            .getRange(toRow(start), span.start + 1, rows.length, span.count)
+            .setValues(
+                rows.map((row) =>
+                    row.slice(span.start, span.start + span.count)
+                )
+            );
+    });
+};
+
+/**
+ * Write a plan computed by `computeCommitPlan` onto the sheet.
+ * @param width Number of columns of a data row.
+ * @param columns 0-based indices of the columns to write, in ascending order; every column when omitted.
+ *                Cells of the others are left as they are, formulas included,
+ *                except in rows deleted or cleared as a whole.
+ * @param onDeleted Called as each of `deletions` is carried out, so a failed write can be reverted.
+ */
+export const applyCommitPlan = (
+    sheet: SheetLike,
+    { deletions, updates, insertion, clear }: CommitPlan,
+    width: number,
+    columns?: readonly number[],
+    onDeleted?: () => void
+) => {
+    const spans = spansOf(width, columns);
+
+    deletions.forEach(({ start, count }) => {
+        sheet.deleteRows(toRow(start), count);
+        onDeleted?.();
+    });
+
+    if (insertion !== undefined) {
+        ensureRows(sheet, toRow(insertion.start) + insertion.rows.length - 1);
+    }
+    [...updates, ...(insertion ? [insertion] : [])].forEach(
+        ({ start, rows }) => {
+            writeRows(sheet, start, rows, spans);
+        }
+    );
+
+    if (clear !== undefined) {
+        sheet
+            .getRange(toRow(clear.start), 1, clear.count, width)
+            .clearContent();
+    }
+};
+
+/**
+ * Undo what `applyCommitPlan` wrote, even when it stopped part way.
+ * Only the rows the plan touched are written: rows deleted are inserted back, and rows cleared
+ * get their cells again, while rows updated or reused get back the cells of `columns` only,
+ * so other columns keep whatever they hold now, formulas included.
+ * @param original Data rows the plan was computed against, as read from the sheet, every column included.
+ * @param width Number of columns of a data row.
+ * @param columns The ones given to `applyCommitPlan`.
+ * @param deleted Number of `deletions` carried out, all of them when omitted.
+ */
+export const revertCommitPlan = (
+    sheet: SheetLike,
+    { deletions, updates, insertion, clear }: CommitPlan,
+    original: readonly unknown[][],
+    width: number,
+    columns?: readonly number[],
+    deleted = deletions.length
+) => {
+    const spans = spansOf(width, columns);
+    const everyColumn = spansOf(width);
+
+    // Deletions are carried out bottom-most first, so the ones left out are above the others.
+    const done = deletions.slice(0, deleted);
+    const removed = new Set(
+        done.flatMap(({ start, count }) =>
+            Array.from({ length: count }, (_, i) => start + i)
+        )
+    );
+    // Original index of each row left on the sheet after the deletions.
+    const remaining = original.map((_, i) => i).filter((i) => !removed.has(i));
+
+    // Rows are written only once every deletion is done; until then, they are where they were.
+    if (deleted === deletions.length) {
+        [...updates, ...(insertion ? [insertion] : [])].forEach(
+            ({ start, rows }) => {
+                const kept = Math.max(
+                    Math.min(rows.length, remaining.length - start),
+                    0
+                );
+                if (kept > 0) {
+                    writeRows(
+                        sheet,
+                        start,
+                        remaining
+                            .slice(start, start + kept)
+                            .map((i) => original[i]),
+                        spans
+                    );
+                }
+
+                // Rows added by the commit, as far as they were added.
+                const added = Math.min(
+                    rows.length - kept,
+                    sheet.getMaxRows() - toRow(start + kept) + 1
+                );
+                if (added > 0) {
+                    spans.forEach((span) => {
+                        sheet
+                            .getRange(
+                                toRow(start + kept),
+                                span.start + 1,
+                                added,
+                                span.count
+                            )
+                            .clearContent();
+                    });
+                }
+            }
+        );
+
+        if (clear !== undefined) {
+            writeRows(
+                sheet,
+                clear.start,
+                remaining
+                    .slice(clear.start, clear.start + clear.count)
+                    .map((i) => original[i]),
+                everyColumn
+            );
+        }
+    }
+
+    done.slice()
+        .reverse()
+        .forEach(({ start, count }) => {
+            sheet.insertRowsAfter(toRow(start) - 1, count);
+            writeRows(
+                sheet,
+                start,
+                original.slice(start, start + count),
+                everyColumn
+            );
+        });
+};
@@ -0,0 +1,122 @@
+import {
+    CacheLike,
+    DataValidationLike,
+    LockLike,
+    PropertiesLike,
+    SpreadsheetLike,
+} from "./types/backend";
+
+/**
+ * Which users a lock keeps out: every user of the script, of the document it is bound to,
+ * or other executions of the current user only.
+ */
+export type LockKind = "script" | "document" | "user";
+
+/**
+ * Validation rules the query layer puts on columns.
+ */
+export type ValidationKind = "checkbox" | "date";
+
+/**
+ * Services the query layer talks to.
+ * Every member is resolved lazily, so importing the query layer never touches Apps Script globals.
+ */
+export type SheetQueryEnvironment = {
+    /**
+     * @param idOrUrl ID or URL of the spreadsheet to open; the active spreadsheet when omitted.
+     */
+    getSpreadsheet(idOrUrl?: string): SpreadsheetLike;
+    getLock(kind: LockKind): LockLike;
+    /**
+     * Store for bookkeeping such as the schema version applied to each sheet.
+     */
+    getProperties(): PropertiesLike;
+    /**
+     * Short-lived store for the rows of sheets whose config enables `cache`.
+     */
+    getCache(): CacheLike;
+    /**
+     * Time zone dates without an explicit offset are read in.
+     */
+    getTimeZone(): string;
+    /**
+     * Email of the user running the script, recorded in audit entries.
+     * Empty when Apps Script does not disclose it, e.g. to a web app running as its owner.
+     */
+    getActiveUser(): string;
+    /**
+     * Current time in milliseconds, which execution-time budgets are measured with.
+     */
+    now(): number;
+    /**
+     * Pause the execution, between attempts at a lock.
+     */
+    sleep(millis: number): void;
+    /**
+     * Build a rule rejecting anything but the given kind of value.
+     */
+    createValidation(kind: ValidationKind): DataValidationLike;
+};
+
+const SPREADSHEET_URL_REGEX =
+    /^https?:\/\/docs\.google\.com\/spreadsheets\/d\/([\w-]+)/;
+
+/**
+ * Spreadsheet ID of `idOrUrl`, which is either an ID already or the URL of a spreadsheet.
+ */
+export const spreadsheetIdOf = (idOrUrl: string) =>
+    SPREADSHEET_URL_REGEX.exec(idOrUrl)?.[1] ?? idOrUrl;
+
+const openSpreadsheet = (idOrUrl?: string) => {
+    if (idOrUrl !== undefined) {
+        return SPREADSHEET_URL_REGEX.test(idOrUrl)
+            ? SpreadsheetApp.openByUrl(idOrUrl)
+            : SpreadsheetApp.openById(idOrUrl);
+    }
+
+    const active = SpreadsheetApp.getActive();
+    if (active === null) {
+        throw new Error(
+            "There's no active spreadsheet; give the spreadsheet ID or URL to the config"
+        );
+    }
+    return active;
+};
+
+const openLock = (kind: LockKind) => {
+    if (kind === "script") {
+        return LockService.getScriptLock();
+    }
+    if (kind === "user") {
+        return LockService.getUserLock();
+    }
+
+    const lock = LockService.getDocumentLock();
+    if (lock === null) {
+        throw new Error(
+            "There's no document lock, as the script is not bound to a document"
+        );
+    }
+    return lock;
+};
+
+export const appsScriptEnvironment: SheetQueryEnvironment = {
+    getSpreadsheet: openSpreadsheet,
+    getLock: openLock,
+    getProperties: () => PropertiesService.getScriptProperties(),
+    getCache: () => CacheService.getScriptCache(),
+    getTimeZone: () => Session.getScriptTimeZone(),
+    getActiveUser: () => Session.getActiveUser().getEmail(),
+    now: () => Date.now(),
+    sleep: (millis) => Utilities.sleep(millis),
+    createValidation: (kind) => {
+        const builder = SpreadsheetApp.newDataValidation();
+        return (
+            kind === "checkbox"
+                ? builder.requireCheckbox()
+                : builder.requireDate()
+        )
+            .setAllowInvalid(false)
+            .build();
+    },
+};
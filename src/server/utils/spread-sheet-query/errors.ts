@@ -0,0 +1,397 @@
+import { MigrationStep } from "./types/migration";
+import { TypeName } from "./types/utils";
+
+export type SheetQueryErrorCode =
+    | "SHEET_NOT_FOUND"
+    | "HEADER_MISMATCH"
+    | "TYPE_MISMATCH"
+    | "DUPLICATE_KEY"
+    | "RELATION_INTEGRITY"
+    | "INVALID_CONFIG"
+    | "LOCK_TIMEOUT"
+    | "WRITE_FAILED"
+    | "ROLLED_BACK"
+    | "MIGRATION_FAILED"
+    | "CONFLICT";
+
+/**
+ * Base of every error raised by the query layer.
+ * `code` tells the cases apart and `details` holds the same facts as plain data,
+ * so both survive the trip to the client through `apiHandler`.
+ */
+export abstract class SheetQueryError<
+    Details extends object = object
+> extends Error {
+    public abstract readonly code: SheetQueryErrorCode;
+    public readonly details: Details;
+    /**
+     * Whether running the same operation again may succeed, e.g. once a lock is released.
+     */
+    public readonly retryable: boolean = false;
+
+    constructor(message: string, details: Details) {
+        super(message);
+        this.details = details;
+    }
+}
+
+export class SheetNotFoundError extends SheetQueryError<{
+    sheet: number | string;
+    spreadsheet: string | undefined;
+}> {
+    public readonly code = "SHEET_NOT_FOUND";
+    public readonly cause: unknown;
+
+    /**
+     * @param cause Error raised while opening the spreadsheet, if that is what failed.
+     */
+    constructor(
+        sheet: number | string,
+        spreadsheet: string | undefined,
+        cause?: unknown
+    ) {
+        super(
+            `There's no sheet ${
+                typeof sheet === "number"
+                    ? `of id ${sheet}`
+                    : `named "${sheet}"`
+            }${
+                spreadsheet === undefined
+                    ? ""
+                    : ` in spreadsheet ${spreadsheet}`
+            }`,
+            { sheet, spreadsheet }
+        );
+        this.name = "SheetNotFoundError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * What is wrong with a header cell.
+ * - `not-string`: the cell does not hold text.
+ * - `malformed`: the text is not of the form `Name <type>` where that form is required.
+ * - `unknown-column`: the name is not declared in the config.
+ * - `annotation-mismatch`: the `<type>` suffix differs from the declared type.
+ * - `missing-column`: a column declared in the config has no header; `header` is its name.
+ */
+export type HeaderIssue =
+    | "not-string"
+    | "malformed"
+    | "unknown-column"
+    | "annotation-mismatch"
+    | "missing-column";
+
+export class HeaderMismatchError extends SheetQueryError<{
+    sheet: string;
+    header: unknown;
+    issue: HeaderIssue;
+    expected: TypeName | undefined;
+}> {
+    public readonly code = "HEADER_MISMATCH";
+
+    constructor(
+        sheet: string,
+        header: unknown,
+        issue: HeaderIssue,
+        expected?: TypeName
+    ) {
+        super(
+            `Header ${JSON.stringify(header)} on sheet "${sheet}" ${
+                issue === "not-string"
+                    ? "is not a string"
+                    : issue === "malformed"
+                    ? "is not of the form `Name <type>`"
+                    : issue === "unknown-column"
+                    ? "is not a declared column"
+                    : issue === "missing-column"
+                    ? `is declared as ${expected} but missing`
+                    : `is annotated with another type than the declared ${expected}`
+            }`,
+            { sheet, header, issue, expected }
+        );
+        this.name = "HeaderMismatchError";
+    }
+}
+
+export type CellIssue = {
+    /**
+     * 1-based row number on the sheet, header row included.
+     */
+    readonly row: number;
+    readonly header: string;
+    /**
+     * Type of the column, or the name of its codec.
+     */
+    readonly expected: string;
+    readonly actual: unknown;
+};
+
+const MAX_LISTED_ISSUES = 5;
+
+export class TypeMismatchError extends SheetQueryError<{
+    issues: readonly CellIssue[];
+}> {
+    public readonly code = "TYPE_MISMATCH";
+    public readonly issues: readonly CellIssue[];
+
+    constructor(issues: readonly CellIssue[]) {
+        const listed = issues
+            .slice(0, MAX_LISTED_ISSUES)
+            .map(
+                ({ row, header, expected, actual }) =>
+                    `row ${row} "${header}": expected ${expected} but got ${JSON.stringify(actual)}`
+            );
+        const rest = issues.length - listed.length;
+
+        super(
+            `Cell values do not match the column types. (${listed.join("; ")}${
+                rest > 0 ? `; and ${rest} more` : ""
+            })`,
+            { issues }
+        );
+        this.name = "TypeMismatchError";
+        this.issues = issues;
+    }
+}
+
+export class DuplicateKeyError extends SheetQueryError<{
+    sheet: string;
+    columns: readonly string[];
+    keys: readonly string[];
+}> {
+    public readonly code = "DUPLICATE_KEY";
+    public readonly sheet: string;
+    public readonly columns: readonly string[];
+    /**
+     * Serialised keys that appear more than once.
+     */
+    public readonly keys: readonly string[];
+
+    constructor(
+        sheet: string,
+        columns: readonly string[],
+        keys: readonly string[]
+    ) {
+        super(
+            `Duplicate primary key on sheet "${sheet}" (${columns.join(
+                ", "
+            )}): ${keys.join(", ")}`,
+            { sheet, columns, keys }
+        );
+        this.name = "DuplicateKeyError";
+        this.sheet = sheet;
+        this.columns = columns;
+        this.keys = keys;
+    }
+}
+
+export class RelationIntegrityError extends SheetQueryError<{
+    sheet: string;
+    relation: string;
+    foreignKey: string;
+    missing: readonly unknown[];
+}> {
+    public readonly code = "RELATION_INTEGRITY";
+    public readonly sheet: string;
+    public readonly relation: string;
+    public readonly foreignKey: string;
+    /**
+     * Foreign key values with no matching target record.
+     */
+    public readonly missing: readonly unknown[];
+
+    constructor(
+        sheet: string,
+        relation: string,
+        foreignKey: string,
+        missing: readonly unknown[]
+    ) {
+        super(
+            `Records on sheet "${sheet}" refer to missing "${relation}" records through "${foreignKey}": ${missing
+                .map((v) => JSON.stringify(v))
+                .join(", ")}`,
+            { sheet, relation, foreignKey, missing }
+        );
+        this.name = "RelationIntegrityError";
+        this.sheet = sheet;
+        this.relation = relation;
+        this.foreignKey = foreignKey;
+        this.missing = missing;
+    }
+}
+
+/**
+ * A config, or an argument naming part of it, cannot be used as given.
+ */
+export class InvalidConfigError extends SheetQueryError<{
+    sheet: string;
+}> {
+    public readonly code = "INVALID_CONFIG";
+
+    constructor(sheet: string, message: string) {
+        super(`${message} (sheet "${sheet}")`, { sheet });
+        this.name = "InvalidConfigError";
+    }
+}
+
+export class LockTimeoutError extends SheetQueryError<{
+    timeoutInMillis: number;
+    attempts: number;
+}> {
+    public readonly code = "LOCK_TIMEOUT";
+    public readonly retryable = true;
+
+    /**
+     * @param timeoutInMillis Time each attempt waited for the lock.
+     */
+    constructor(timeoutInMillis: number, attempts: number) {
+        super(
+            `Could not obtain the lock within ${timeoutInMillis}ms${
+                attempts > 1 ? `, in ${attempts} attempts` : ""
+            }`,
+            { timeoutInMillis, attempts }
+        );
+        this.name = "LockTimeoutError";
+    }
+}
+
+export class WriteFailedError extends SheetQueryError<{
+    sheet: string;
+}> {
+    public readonly code = "WRITE_FAILED";
+    public readonly cause: unknown;
+
+    constructor(sheet: string, cause: unknown) {
+        super(
+            `Writing to sheet "${sheet}" failed (${
+                cause instanceof Error ? cause.message : String(cause)
+            })`,
+            { sheet }
+        );
+        this.name = "WriteFailedError";
+        this.cause = cause;
+    }
+}
+
+export class RollbackError extends SheetQueryError<{
+    failedSheet: string;
+    rolledBack: readonly string[];
+    unrecovered: readonly string[];
+    audited: readonly string[];
+}> {
+    public readonly code = "ROLLED_BACK";
+    /**
+     * Sheet whose commit failed.
+     */
+    public readonly failedSheet: string;
+    /**
+     * Sheets restored to the state they had when loaded.
+     */
+    public readonly rolledBack: readonly string[];
+    /**
+     * Sheets that could not be restored and may hold partial writes.
+     */
+    public readonly unrecovered: readonly string[];
+    /**
+     * Sheets whose audit entries were written before the failure,
+     * and still record the changes rolled back.
+     */
+    public readonly audited: readonly string[];
+    public readonly cause: unknown;
+
+    constructor(
+        failedSheet: string,
+        rolledBack: readonly string[],
+        unrecovered: readonly string[],
+        audited: readonly string[],
+        cause: unknown
+    ) {
+        super(
+            `Commit to sheet "${failedSheet}" failed (${
+                cause instanceof Error ? cause.message : String(cause)
+            }). Rolled back: ${rolledBack.join(", ") || "none"}.${
+                unrecovered.length > 0
+                    ? ` Could not roll back: ${unrecovered.join(", ")}.`
+                    : ""
+            }${
+                audited.length > 0
+                    ? ` Audit entries remain for: ${audited.join(", ")}.`
+                    : ""
+            }`,
+            { failedSheet, rolledBack, unrecovered, audited }
+        );
+        this.name = "RollbackError";
+        this.failedSheet = failedSheet;
+        this.rolledBack = rolledBack;
+        this.unrecovered = unrecovered;
+        this.audited = audited;
+        this.cause = cause;
+    }
+}
+
+export class MigrationError extends SheetQueryError<{
+    sheet: string;
+    version: number;
+    step: MigrationStep;
+}> {
+    public readonly code = "MIGRATION_FAILED";
+    public readonly cause: unknown;
+
+    constructor(
+        sheet: string,
+        version: number,
+        step: MigrationStep,
+        reason: string,
+        cause?: unknown
+    ) {
+        super(
+            `Migration to version ${version} of sheet "${sheet}" failed at ${step.kind}: ${reason}`,
+            { sheet, version, step }
+        );
+        this.name = "MigrationError";
+        this.cause = cause;
+    }
+}
+
+/**
+ * A row about to be written was changed by someone else since it was loaded.
+ */
+export type ConflictRow = {
+    /**
+     * 1-based row on the sheet.
+     */
+    readonly row: number;
+    /**
+     * Version the row had when loaded, or `undefined` when the row did not exist then
+     * or the sheet has no version column.
+     */
+    readonly expected: unknown;
+    /**
+     * Version the row has now, or `undefined` when the row is gone
+     * or the sheet has no version column.
+     */
+    readonly actual: unknown;
+};
+
+export class ConflictError extends SheetQueryError<{
+    sheet: string;
+    rows: readonly ConflictRow[];
+}> {
+    public readonly code = "CONFLICT";
+    public readonly retryable = true;
+    public readonly sheet: string;
+    public readonly rows: readonly ConflictRow[];
+
+    constructor(sheet: string, rows: readonly ConflictRow[]) {
+        super(
+            `Sheet "${sheet}" was changed since it was loaded (rows ${rows
+                .map(({ row }) => row)
+                .join(", ")}); load it again and retry`,
+            { sheet, rows }
+        );
+        this.name = "ConflictError";
+        this.sheet = sheet;
+        this.rows = rows;
+    }
+}
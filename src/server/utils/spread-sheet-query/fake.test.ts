@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+    createFakeEnvironment,
+    createFakeLock,
+    createFakeSpreadsheet,
+} from "./fake";
+import SpreadSheetQuery from "./index";
+
+const USER_SHEET_ID = 1000;
+
+const USERS = [
+    ["Name", "Age"],
+    ["Alice", 30],
+    ["Bob", 25],
+];
+
+const userConfig = SpreadSheetQuery.createQueryConfig(USER_SHEET_ID, {
+    ["Name"]: "string",
+    ["Age"]: "number",
+});
+
+const setup = () => {
+    const spreadsheet = createFakeSpreadsheet([
+        { id: USER_SHEET_ID, name: "Users", values: USERS },
+    ]);
+    const lock = createFakeLock();
+    const environment = createFakeEnvironment(spreadsheet, { lock });
+    const [sheet] = spreadsheet.getSheets();
+    return { spreadsheet, lock, environment, sheet };
+};
+
+describe("createFakeSpreadsheet", () => {
+    it("gives seeded sheets their id, or their index", () => {
+        const spreadsheet = createFakeSpreadsheet([
+            { id: USER_SHEET_ID, name: "Users" },
+            { name: "Groups" },
+        ]);
+
+        expect(
+            spreadsheet.getSheets().map((s) => [s.getSheetId(), s.getName()])
+        ).toEqual([
+            [USER_SHEET_ID, "Users"],
+            [1, "Groups"],
+        ]);
+    });
+
+    it("reads and writes cells through ranges", () => {
+        const { sheet } = setup();
+
+        expect(sheet.getDataRange().getValues()).toEqual(USERS);
+
+        sheet.getRange(4, 1, 1, 2).setValues([["Carol", 41]]);
+
+        expect(sheet.dump()).toEqual([...USERS, ["Carol", 41]]);
+        expect(() => sheet.getRange(1, 1, 1, 2).setValues([["x"]])).toThrow();
+    });
+
+    it("keeps the seed apart from the sheet", () => {
+        const { sheet } = setup();
+
+        sheet.getRange(2, 1, 1, 1).setValues([["Alicia"]]);
+
+        expect(USERS[1][0]).toBe("Alice");
+    });
+});
+
+describe("useSheetQuery", () => {
+    it("reads the seeded records", async () => {
+        const { environment } = setup();
+        const names: string[] = [];
+
+        const result = await SpreadSheetQuery.useSheetQuery(
+            ([user]) => {
+                user.read().forEach((r) => names.push(r["Name"]));
+            },
+            [userConfig] as const,
+            { environment }
+        );
+
+        expect(result.isOk()).toBe(true);
+        expect(names).toEqual(["Alice", "Bob"]);
+    });
+
+    it("writes records only on commit", async () => {
+        const { environment, sheet } = setup();
+
+        await SpreadSheetQuery.useSheetQuery(
+            ([user]) => {
+                user.set([
+                    { ["Name"]: "Carol", ["Age"]: 41 },
+                    { ["Name"]: "Dave", ["Age"]: 19 },
+                ]);
+                expect(sheet.dump()).toEqual(USERS);
+
+                user.commit();
+            },
+            [userConfig] as const,
+            { environment }
+        );
+
+        expect(sheet.dump()).toEqual([
+            ["Name", "Age"],
+            ["Carol", 41],
+            ["Dave", 19],
+        ]);
+    });
+
+    it("fails without running the procedure when the lock is held", async () => {
+        const { environment, lock } = setup();
+        lock.tryLock(0);
+        let ran = false;
+
+        const result = await SpreadSheetQuery.useSheetQuery(
+            () => {
+                ran = true;
+            },
+            [userConfig] as const,
+            { environment }
+        );
+
+        expect(result.isErr()).toBe(true);
+        expect(ran).toBe(false);
+    });
+
+    it("releases the lock when the procedure throws", async () => {
+        const { environment, lock } = setup();
+
+        const result = await SpreadSheetQuery.useSheetQuery(
+            () => {
+                throw new Error("boom");
+            },
+            [userConfig] as const,
+            { environment }
+        );
+
+        expect(result.isErr()).toBe(true);
+        expect(lock.hasLock()).toBe(false);
+    });
+});
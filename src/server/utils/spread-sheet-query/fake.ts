@@ -0,0 +1,506 @@
+import appsscript from "@/appsscript.json";
+import {
+    SheetQueryEnvironment,
+    ValidationKind,
+    spreadsheetIdOf,
+} from "./environment";
+import {
+    CacheLike,
+    DataValidationLike,
+    LockLike,
+    PropertiesLike,
+    RangeLike,
+    SheetLike,
+    SpreadsheetLike,
+} from "./types/backend";
+import { SheetValueType } from "./types/sheetValue";
+
+type Grid = SheetValueType[][];
+
+export type FakeSheetSeed = {
+    id?: number;
+    name?: string;
+    values?: Grid;
+};
+
+export type FakeSheet = SheetLike & {
+    /**
+     * Snapshot of every cell of the data range, for assertions.
+     */
+    dump(): Grid;
+};
+
+/**
+ * Values and formatting of the cells of a sheet, keyed by 0-based row and column.
+ */
+type Cells = {
+    readonly grid: Grid;
+    readonly formats: Map<string, string>;
+    readonly validations: Map<string, DataValidationLike>;
+};
+
+export type FakeSpreadsheet = Omit<SpreadsheetLike, "getSheets"> & {
+    getSheets(): FakeSheet[];
+};
+
+export type FakeLock = LockLike & {
+    hasLock(): boolean;
+};
+
+export type FakeProperties = PropertiesLike & {
+    /**
+     * Every stored property, for assertions.
+     */
+    dump(): Record<string, string>;
+};
+
+export type FakeCache = CacheLike & {
+    /**
+     * Every entry not expired yet, for assertions.
+     */
+    dump(): Record<string, string>;
+};
+
+const EMPTY_CELL = "";
+const DEFAULT_NUMBER_FORMAT = "0.###############";
+const DEFAULT_MAX_ROWS = 1000;
+
+const cellKey = (r: number, c: number) => `${r},${c}`;
+
+const copyGrid = (grid: Grid): Grid => grid.map((row) => row.slice());
+
+const setCell = (grid: Grid, r: number, c: number, value: SheetValueType) => {
+    while (grid.length <= r) grid.push([]);
+    while (grid[r].length <= c) grid[r].push(EMPTY_CELL);
+    grid[r][c] = value;
+};
+
+const isEmptyRow = (row: readonly SheetValueType[]) =>
+    row.every((v) => v === EMPTY_CELL);
+
+const createFakeRange = (
+    { grid, formats, validations }: Cells,
+    row: number,
+    column: number,
+    numRows: number,
+    numColumns: number
+): RangeLike => {
+    if (row < 1 || column < 1 || numRows < 1 || numColumns < 1) {
+        throw new Error(
+            `The coordinates or dimensions of the range are invalid. (${row}, ${column}, ${numRows}, ${numColumns})`
+        );
+    }
+
+    const eachCell = (fn: (key: string) => void) => {
+        for (let i = 0; i < numRows; i++) {
+            for (let j = 0; j < numColumns; j++) {
+                fn(cellKey(row - 1 + i, column - 1 + j));
+            }
+        }
+    };
+
+    const range: RangeLike = {
+        getValues: () =>
+            Array.from({ length: numRows }, (_, i) =>
+                Array.from(
+                    { length: numColumns },
+                    (_, j) => grid[row - 1 + i]?.[column - 1 + j] ?? EMPTY_CELL
+                )
+            ),
+        setValues: (values) => {
+            if (values.length !== numRows) {
+                throw new Error(
+                    `The number of rows in the data does not match the number of rows in the range. The data has ${values.length} but the range has ${numRows}.`
+                );
+            }
+            values.forEach((cells, i) => {
+                if (cells.length !== numColumns) {
+                    throw new Error(
+                        `The number of columns in the data does not match the number of columns in the range. The data has ${cells.length} but the range has ${numColumns}.`
+                    );
+                }
+
+                cells.forEach((cell, j) =>
+                    setCell(grid, row - 1 + i, column - 1 + j, cell)
+                );
+            });
+            return range;
+        },
+        getNumberFormat: () =>
+            formats.get(cellKey(row - 1, column - 1)) ?? DEFAULT_NUMBER_FORMAT,
+        setNumberFormat: (numberFormat) => {
+            eachCell((key) => formats.set(key, numberFormat));
+            return range;
+        },
+        getDataValidation: () =>
+            validations.get(cellKey(row - 1, column - 1)) ?? null,
+        setDataValidation: (rule) => {
+            eachCell((key) =>
+                rule === null
+                    ? validations.delete(key)
+                    : validations.set(key, rule)
+            );
+            return range;
+        },
+        getColumn: () => column,
+        getNumColumns: () => numColumns,
+        clearContent: () => {
+            for (let i = 0; i < numRows; i++) {
+                for (let j = 0; j < numColumns; j++) {
+                    const r = row - 1 + i;
+                    const c = column - 1 + j;
+                    if (grid[r]?.[c] !== undefined) {
+                        grid[r][c] = EMPTY_CELL;
+                    }
+                }
+            }
+            return range;
+        },
+    };
+
+    return range;
+};
+
+const createFakeSheet = (
+    { id, name, values }: FakeSheetSeed,
+    index: number
+): FakeSheet => {
+    const sheetId = id ?? index;
+    const sheetName = name ?? `Sheet${index + 1}`;
+    const grid = copyGrid(values ?? []);
+    const cells: Cells = { grid, formats: new Map(), validations: new Map() };
+    let maxRows = Math.max(grid.length, DEFAULT_MAX_ROWS);
+    let frozenRows = 0;
+
+    const lastRow = () => {
+        let r = grid.length;
+        while (r > 0 && isEmptyRow(grid[r - 1])) r--;
+        return r;
+    };
+    const lastColumn = () =>
+        grid.reduce((acc, row) => {
+            let c = row.length;
+            while (c > 0 && row[c - 1] === EMPTY_CELL) c--;
+            return Math.max(acc, c);
+        }, 0);
+
+    const columnCount = () =>
+        Array.from(cells.formats.keys())
+            .concat(Array.from(cells.validations.keys()))
+            .reduce(
+                (acc, key) => Math.max(acc, Number(key.split(",")[1]) + 1),
+                grid.reduce((acc, row) => Math.max(acc, row.length), 0)
+            );
+    // Column j of the sheet takes what column order[j] held, formatting included, or starts empty.
+    const rearrangeColumns = (order: readonly (number | undefined)[]) => {
+        const target = new Map(
+            order.flatMap((c, j) => (c === undefined ? [] : [[c, j] as const]))
+        );
+        const remap = <V>(map: Map<string, V>) => {
+            const entries = Array.from(map.entries());
+            map.clear();
+            entries.forEach(([key, value]) => {
+                const [r, c] = key.split(",").map(Number);
+                const j = target.get(c);
+                if (j !== undefined) {
+                    map.set(cellKey(r, j), value);
+                }
+            });
+        };
+
+        grid.forEach((row, r) => {
+            grid[r] = order.map((c) =>
+                c === undefined ? EMPTY_CELL : row[c] ?? EMPTY_CELL
+            );
+        });
+        remap(cells.formats);
+        remap(cells.validations);
+    };
+    const columnsUpTo = (count: number) =>
+        Array.from({ length: Math.max(columnCount(), count) }, (_, c) => c);
+    const insertColumnBefore = (beforePosition: number) => {
+        if (beforePosition < 1) {
+            throw new Error(
+                `Those columns are out of bounds. (${beforePosition})`
+            );
+        }
+        const columns = columnsUpTo(beforePosition - 1);
+        rearrangeColumns([
+            ...columns.slice(0, beforePosition - 1),
+            undefined,
+            ...columns.slice(beforePosition - 1),
+        ]);
+    };
+
+    const dataRange = () =>
+        createFakeRange(
+            cells,
+            1,
+            1,
+            Math.max(lastRow(), 1),
+            Math.max(lastColumn(), 1)
+        );
+
+    return {
+        getSheetId: () => sheetId,
+        getName: () => sheetName,
+        getDataRange: dataRange,
+        getRange: (row, column, numRows, numColumns) => {
+            if (row + numRows - 1 > maxRows) {
+                throw new Error(
+                    "The coordinates of the range are outside the dimensions of the sheet."
+                );
+            }
+            return createFakeRange(cells, row, column, numRows, numColumns);
+        },
+        deleteRows: (rowPosition, howMany) => {
+            if (rowPosition < 1 || howMany < 1 || rowPosition > grid.length) {
+                throw new Error(
+                    `Those rows are out of bounds. (${rowPosition}, ${howMany})`
+                );
+            }
+            grid.splice(rowPosition - 1, howMany);
+            maxRows -= Math.min(howMany, maxRows - rowPosition + 1);
+        },
+        insertRowsAfter: (afterPosition, howMany) => {
+            if (afterPosition < 1 || howMany < 1 || afterPosition > maxRows) {
+                throw new Error(
+                    `Those rows are out of bounds. (${afterPosition}, ${howMany})`
+                );
+            }
+            if (afterPosition < grid.length) {
+                grid.splice(
+                    afterPosition,
+                    0,
+                    ...Array.from({ length: howMany }, () => [])
+                );
+            }
+            maxRows += howMany;
+        },
+        insertColumnBefore,
+        insertColumnAfter: (afterPosition) =>
+            insertColumnBefore(afterPosition + 1),
+        deleteColumn: (columnPosition) => {
+            if (columnPosition < 1 || columnPosition > columnCount()) {
+                throw new Error(
+                    `Those columns are out of bounds. (${columnPosition})`
+                );
+            }
+            rearrangeColumns(
+                columnsUpTo(0).filter((c) => c !== columnPosition - 1)
+            );
+        },
+        moveColumns: (columnSpec, destinationIndex) => {
+            const start = columnSpec.getColumn() - 1;
+            const block = columnsUpTo(destinationIndex - 1).slice(
+                start,
+                start + columnSpec.getNumColumns()
+            );
+            const rest = columnsUpTo(destinationIndex - 1).filter(
+                (c) => !block.includes(c)
+            );
+            const at = rest.filter((c) => c < destinationIndex - 1).length;
+            rearrangeColumns([
+                ...rest.slice(0, at),
+                ...block,
+                ...rest.slice(at),
+            ]);
+        },
+        getLastRow: lastRow,
+        getLastColumn: lastColumn,
+        getMaxRows: () => maxRows,
+        getFrozenRows: () => frozenRows,
+        setFrozenRows: (rows) => {
+            frozenRows = rows;
+        },
+        dump: () => dataRange().getValues(),
+    };
+};
+
+/**
+ * In-memory stand-in for a spreadsheet, for running the query layer outside Apps Script.
+ * Sheets without an explicit `id` get their index as id.
+ */
+export const createFakeSpreadsheet = (
+    seeds: readonly FakeSheetSeed[],
+    id = "fake-spreadsheet"
+): FakeSpreadsheet => {
+    const sheets = seeds.map(createFakeSheet);
+
+    return {
+        getId: () => id,
+        getSheets: () => sheets.slice(),
+        insertSheet: (sheetName) => {
+            if (sheets.some((s) => s.getName() === sheetName)) {
+                throw new Error(
+                    `A sheet with the name "${sheetName}" already exists. Please enter another name.`
+                );
+            }
+
+            const sheet = createFakeSheet(
+                {
+                    id: Math.max(0, ...sheets.map((s) => s.getSheetId())) + 1,
+                    name: sheetName,
+                },
+                sheets.length
+            );
+            sheets.push(sheet);
+            return sheet;
+        },
+    };
+};
+
+/**
+ * In-memory stand-in for `LockService.getScriptLock()`.
+ * `tryLock` fails immediately when the lock is already held, as it would after timing out.
+ */
+export const createFakeLock = (): FakeLock => {
+    let locked = false;
+
+    return {
+        tryLock: () => {
+            if (locked) {
+                return false;
+            }
+            locked = true;
+            return true;
+        },
+        releaseLock: () => {
+            locked = false;
+        },
+        hasLock: () => locked,
+    };
+};
+
+/**
+ * In-memory stand-in for `PropertiesService.getScriptProperties()`.
+ */
+export const createFakeProperties = (
+    seed: Record<string, string> = {}
+): FakeProperties => {
+    const store = new Map(Object.entries(seed));
+
+    const properties: FakeProperties = {
+        getProperty: (key) => store.get(key) ?? null,
+        setProperty: (key, value) => {
+            store.set(key, value);
+            return properties;
+        },
+        dump: () => Object.fromEntries(store),
+    };
+
+    return properties;
+};
+
+/**
+ * In-memory stand-in for `CacheService.getScriptCache()`.
+ * @param now Clock entries expire against, in milliseconds; the system clock when omitted.
+ */
+export const createFakeCache = (now: () => number = Date.now): FakeCache => {
+    const store = new Map<string, { value: string; expiresAt: number }>();
+
+    const get = (key: string) => {
+        const entry = store.get(key);
+        if (entry === undefined || entry.expiresAt <= now()) {
+            store.delete(key);
+            return null;
+        }
+        return entry.value;
+    };
+
+    return {
+        get,
+        getAll: (keys) =>
+            keys.reduce((acc, key) => {
+                const value = get(key);
+                return value === null ? acc : { ...acc, [key]: value };
+            }, {}),
+        putAll: (values, expirationInSeconds) => {
+            Object.entries(values).forEach(([key, value]) =>
+                store.set(key, {
+                    value,
+                    expiresAt: now() + expirationInSeconds * 1000,
+                })
+            );
+        },
+        remove: (key) => {
+            store.delete(key);
+        },
+        dump: () =>
+            Object.fromEntries(
+                Array.from(store.keys()).flatMap((key) => {
+                    const value = get(key);
+                    return value === null ? [] : [[key, value]];
+                })
+            ),
+    };
+};
+
+/**
+ * Environment backed by in-memory stand-ins.
+ * When several spreadsheets are given, the first one is the active spreadsheet
+ * and the others are opened by their ID or URL.
+ * The one lock given stands in for every kind of lock, and sleeping returns at once.
+ * @example
+ * const environment = createFakeEnvironment(spreadsheet, { cache: createFakeCache(() => now) });
+ */
+export const createFakeEnvironment = (
+    spreadsheets: FakeSpreadsheet | readonly FakeSpreadsheet[],
+    options?: Partial<{
+        lock: FakeLock;
+        /**
+         * The one declared in `appsscript.json` by default, as `Session.getScriptTimeZone()` would return.
+         */
+        timeZone: string;
+        properties: FakeProperties;
+        cache: FakeCache;
+        /**
+         * The system clock by default.
+         */
+        now: () => number;
+        /**
+         * `user@example.com` by default.
+         */
+        user: string;
+    }>
+): SheetQueryEnvironment => {
+    const {
+        lock = createFakeLock(),
+        timeZone = appsscript.timeZone,
+        properties = createFakeProperties(),
+        cache = createFakeCache(),
+        now = Date.now,
+        user = "user@example.com",
+    } = options ?? {};
+    const [active, ...others] = Array.isArray(spreadsheets)
+        ? spreadsheets
+        : [spreadsheets];
+
+    const getSpreadsheet = (idOrUrl?: string) => {
+        if (idOrUrl === undefined) {
+            return active;
+        }
+
+        const id = spreadsheetIdOf(idOrUrl);
+        const spreadsheet = [active, ...others].find((s) => s.getId() === id);
+        if (spreadsheet === undefined) {
+            throw new Error(`There's no spreadsheet of id ${id}`);
+        }
+        return spreadsheet;
+    };
+
+    return {
+        getSpreadsheet,
+        getLock: () => lock,
+        getProperties: () => properties,
+        getCache: () => cache,
+        createValidation: (kind: ValidationKind) => ({
+            getCriteriaType: () =>
+                kind === "checkbox" ? "CHECKBOX" : "DATE_IS_VALID_DATE",
+        }),
+        getTimeZone: () => timeZone,
+        getActiveUser: () => user,
+        now,
+        sleep: () => undefined,
+    };
+};
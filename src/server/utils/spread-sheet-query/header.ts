@@ -0,0 +1,37 @@
+import { TYPE_NAMES } from "@/constants/utils";
+import { TypeName } from "./types/utils";
+
+const HEADER_REGEX = new RegExp(
+    `^\\s*([^<]*?)(?:\\s+<(${TYPE_NAMES.join("|")})>)?\\s*$`
+);
+
+/**
+ * Rows above the data: the header row naming each column.
+ */
+export const HEADER_ROWS = 1;
+
+export type ParsedHeader = {
+    readonly name: string;
+    /**
+     * Type annotated in the header, e.g. `Age <number>`, if any.
+     */
+    readonly type: TypeName | undefined;
+};
+
+/**
+ * Split a header cell into the column name and its optional `<type>` annotation.
+ */
+export const parseHeader = (rawHeader: string): ParsedHeader => {
+    const matched = HEADER_REGEX.exec(rawHeader);
+    if (matched === null) {
+        return { name: rawHeader.trim(), type: undefined };
+    }
+
+    return { name: matched[1], type: matched[2] as TypeName | undefined };
+};
+
+/**
+ * Header cell for a column, annotated with its type.
+ */
+export const formatHeader = (name: string, type: TypeName) =>
+    `${name} <${type}>`;
@@ -0,0 +1,371 @@
+import { describe, expect, it, vi } from "vitest";
+import { createQueryConfig } from "./config";
+import {
+    createFakeEnvironment,
+    createFakeLock,
+    createFakeSpreadsheet,
+} from "./fake";
+import { createSheetQuery, useSheetQuery } from "./index";
+
+const USERS = [
+    ["ID", "Name", "Age <number>"],
+    ["1", "Alice", 30],
+    ["2", "Bob", 25],
+    ["3", "Carol", 41],
+];
+
+const userConfig = createQueryConfig(
+    "Users",
+    { ["ID"]: "string", ["Name"]: "string", ["Age"]: "number" },
+    { primaryKey: "ID" }
+);
+
+const cachedUserConfig = createQueryConfig("Users", userConfig.columnTypes, {
+    primaryKey: "ID",
+    cache: true,
+});
+
+const setup = (
+    values = USERS,
+    options?: Parameters<typeof createFakeEnvironment>[1]
+) => {
+    const spreadsheet = createFakeSpreadsheet([
+        { name: "Users", values: values.map((row) => row.slice()) },
+    ]);
+    const environment = createFakeEnvironment(spreadsheet, options);
+    const [sheet] = spreadsheet.getSheets();
+    return { environment, sheet };
+};
+
+describe("createSheetQuery", () => {
+    it("reads the seeded rows as records", () => {
+        const { environment } = setup();
+        const users = createSheetQuery(userConfig, environment);
+
+        expect(users.read()).toEqual([
+            { ["ID"]: "1", ["Name"]: "Alice", ["Age"]: 30 },
+            { ["ID"]: "2", ["Name"]: "Bob", ["Age"]: 25 },
+            { ["ID"]: "3", ["Name"]: "Carol", ["Age"]: 41 },
+        ]);
+    });
+
+    it("writes nothing until commit", () => {
+        const { environment, sheet } = setup();
+        const users = createSheetQuery(userConfig, environment);
+
+        users.append([{ ["ID"]: "4", ["Name"]: "Dave", ["Age"]: 19 }]);
+
+        expect(users.read()).toHaveLength(4);
+        expect(sheet.dump()).toEqual(USERS);
+    });
+
+    it("appends records at the bottom", () => {
+        const { environment, sheet } = setup();
+        const users = createSheetQuery(userConfig, environment);
+
+        users.append([{ ["ID"]: "4", ["Name"]: "Dave", ["Age"]: 19 }]);
+
+        expect(users.commit()).toEqual({ inserted: 1, updated: 0, deleted: 0 });
+        expect(sheet.dump()).toEqual([...USERS, ["4", "Dave", 19]]);
+    });
+
+    it("replaces every record with set", () => {
+        const { environment, sheet } = setup();
+        const users = createSheetQuery(userConfig, environment);
+
+        users.set([
+            { ["ID"]: "1", ["Name"]: "Alice", ["Age"]: 30 },
+            { ["ID"]: "9", ["Name"]: "Ivan", ["Age"]: 52 },
+        ]);
+
+        expect(users.commit()).toEqual({ inserted: 0, updated: 1, deleted: 1 });
+        expect(sheet.dump()).toEqual([
+            USERS[0],
+            ["1", "Alice", 30],
+            ["9", "Ivan", 52],
+        ]);
+    });
+
+    it("deletes the rows of records matching deleteIf", () => {
+        const { environment, sheet } = setup();
+        const users = createSheetQuery(userConfig, environment);
+
+        users.deleteIf((u) => u["Age"] > 28);
+
+        expect(users.commit()).toEqual({ inserted: 0, updated: 0, deleted: 2 });
+        expect(sheet.dump()).toEqual([USERS[0], ["2", "Bob", 25]]);
+    });
+
+    it("finds, updates, upserts and deletes records by key", () => {
+        const { environment, sheet } = setup();
+        const users = createSheetQuery(userConfig, environment);
+
+        expect(users.findByKey("2")?.["Name"]).toBe("Bob");
+        expect(users.update("2", { ["Age"]: 26 })?.["Age"]).toBe(26);
+        expect(
+            users.upsert([
+                { ["ID"]: "3", ["Name"]: "Carol", ["Age"]: 42 },
+                { ["ID"]: "5", ["Name"]: "Eve", ["Age"]: 33 },
+            ])
+        ).toEqual({ inserted: 1, updated: 1 });
+        expect(users.deleteByKey("1")).toBe(true);
+        expect(users.deleteByKey("1")).toBe(false);
+
+        users.commit();
+        expect(sheet.dump()).toEqual([
+            USERS[0],
+            ["2", "Bob", 26],
+            ["3", "Carol", 42],
+            ["5", "Eve", 33],
+        ]);
+    });
+
+    it("upserts thousands of records against thousands of rows", () => {
+        const rows = Array.from({ length: 5000 }, (_, i) => [
+            String(i),
+            `User ${i}`,
+            20,
+        ]);
+        const { environment, sheet } = setup([USERS[0], ...rows]);
+        const users = createSheetQuery(userConfig, environment);
+
+        const result = users.upsert(
+            Array.from({ length: 5000 }, (_, i) => ({
+                ["ID"]: String(i * 2),
+                ["Name"]: `User ${i * 2}`,
+                ["Age"]: 21,
+            }))
+        );
+
+        expect(result).toEqual({ inserted: 2500, updated: 2500 });
+        users.commit();
+        expect(sheet.dump()[1]).toEqual(["0", "User 0", 21]);
+        expect(sheet.dump()[2]).toEqual(["1", "User 1", 20]);
+        expect(sheet.dump()).toHaveLength(7501);
+    });
+
+    it("writes nothing over rows changed since they were cached", () => {
+        const { environment, sheet } = setup();
+        createSheetQuery(cachedUserConfig, environment).read();
+        sheet.insertRowsAfter(1, 1);
+        sheet.getRange(2, 1, 1, 3).setValues([["0", "Zoe", 22]]);
+        const edited = sheet.dump();
+
+        const users = createSheetQuery(cachedUserConfig, environment);
+        expect(users.deleteByKey("3")).toBe(true);
+
+        expect(() => users.commit()).toThrow(
+            expect.objectContaining({ code: "CONFLICT" })
+        );
+        expect(sheet.dump()).toEqual(edited);
+        expect(
+            createSheetQuery(cachedUserConfig, environment).findByKey("0")
+        ).toEqual({ ["ID"]: "0", ["Name"]: "Zoe", ["Age"]: 22 });
+    });
+
+    it("writes only the declared columns when tolerant", () => {
+        const { environment, sheet } = setup(
+            USERS.map((row, i) => [...row, i === 0 ? "Note" : `=A${i + 1}`])
+        );
+        const tolerantConfig = createQueryConfig(
+            "Users",
+            userConfig.columnTypes,
+            { primaryKey: "ID", tolerant: true }
+        );
+        const users = createSheetQuery(tolerantConfig, environment);
+        // Stands in for a formula computing a new value after the load.
+        sheet.getRange(2, 4, 1, 1).setValues([["recomputed"]]);
+
+        users.update("1", { ["Age"]: 31 });
+        users.commit();
+
+        expect(sheet.dump()[1]).toEqual(["1", "Alice", 31, "recomputed"]);
+    });
+
+    it("rejects a config declaring a column the sheet does not have", () => {
+        const { environment } = setup(USERS.map((row) => row.slice(0, 2)));
+
+        expect(() => createSheetQuery(userConfig, environment)).toThrow(
+            expect.objectContaining({
+                code: "HEADER_MISMATCH",
+                details: expect.objectContaining({ issue: "missing-column" }),
+            })
+        );
+    });
+
+    it("rejects records with a duplicate key", () => {
+        const { environment } = setup();
+        const users = createSheetQuery(userConfig, environment);
+
+        expect(() =>
+            users.append([{ ["ID"]: "1", ["Name"]: "Again", ["Age"]: 1 }])
+        ).toThrow(expect.objectContaining({ code: "DUPLICATE_KEY" }));
+    });
+});
+
+describe("useSheetQuery", () => {
+    it("returns what the procedure returns", async () => {
+        const { environment } = setup();
+
+        const result = await useSheetQuery(
+            ([users]) => users.read().map((u) => u["Name"]),
+            [userConfig] as const,
+            { environment }
+        );
+
+        expect(result.isOk() && result.value).toEqual([
+            "Alice",
+            "Bob",
+            "Carol",
+        ]);
+    });
+
+    it("returns a cell of the wrong type as an error", async () => {
+        const { environment } = setup([...USERS, ["4", "Dave", "old"]]);
+
+        const result = await useSheetQuery(
+            ([users]) => users.read(),
+            [userConfig] as const,
+            { environment }
+        );
+
+        expect(result.isErr() && result.error).toMatchObject({
+            code: "TYPE_MISMATCH",
+        });
+    });
+
+    describe("atomic", () => {
+        const groupConfig = createQueryConfig(
+            "Groups",
+            { ["ID"]: "string", ["Since"]: "Date" },
+            { primaryKey: "ID" }
+        );
+
+        const setupSheets = (values = USERS) => {
+            const spreadsheet = createFakeSpreadsheet([
+                { name: "Users", values: values.map((row) => row.slice()) },
+                { name: "Groups", values: [["ID", "Since <Date>"]] },
+            ]);
+            const environment = createFakeEnvironment(spreadsheet);
+            const [users, groups] = spreadsheet.getSheets();
+            return { environment, users, groups };
+        };
+
+        it("writes no sheet when a later one has invalid changes", async () => {
+            const { environment, users } = setupSheets();
+
+            const result = await useSheetQuery(
+                ([users, groups]) => {
+                    users.append([
+                        { ["ID"]: "4", ["Name"]: "Dave", ["Age"]: 19 },
+                    ]);
+                    groups.append([
+                        {
+                            ["ID"]: "g",
+                            ["Since"]: "someday" as unknown as Date,
+                        },
+                    ]);
+                },
+                [userConfig, groupConfig] as const,
+                { environment, atomic: true }
+            );
+
+            expect(result.isErr() && result.error).toMatchObject({
+                code: "TYPE_MISMATCH",
+            });
+            expect(users.dump()).toEqual(USERS);
+        });
+        it("reverts only the cells written when a later sheet fails", async () => {
+            const CALC = USERS.map((row, i) => [
+                ...row,
+                i === 0 ? "Calc" : `=C${i + 1}*2`,
+            ]);
+            const { environment, users, groups } = setupSheets(CALC);
+            const tolerantConfig = createQueryConfig(
+                "Users",
+                userConfig.columnTypes,
+                { primaryKey: "ID", tolerant: true }
+            );
+
+            const result = await useSheetQuery(
+                ([userQuery, groupQuery]) => {
+                    // Stands in for a formula computing a new value after the load.
+                    users.getRange(4, 4, 1, 1).setValues([[82]]);
+                    vi.spyOn(groups, "getRange").mockImplementation(() => {
+                        throw new Error("Service unavailable");
+                    });
+
+                    userQuery.update("1", { ["Age"]: 31 });
+                    userQuery.deleteByKey("2");
+                    groupQuery.append([
+                        { ["ID"]: "g", ["Since"]: new Date(0) },
+                    ]);
+                },
+                [tolerantConfig, groupConfig] as const,
+                { environment, atomic: true }
+            );
+
+            expect(result.isErr() && result.error).toMatchObject({
+                code: "ROLLED_BACK",
+                failedSheet: "Groups",
+                rolledBack: ["Users"],
+            });
+            expect(users.dump()).toEqual([
+                ...CALC.slice(0, 3),
+                [...USERS[3], 82],
+            ]);
+        });
+    });
+
+    describe("optimistic", () => {
+        const VERSIONED = USERS.map((row, i) => [
+            ...row,
+            i === 0 ? "Version <number>" : 1,
+        ]);
+        const versionedConfig = createQueryConfig(
+            "Users",
+            { ...userConfig.columnTypes, ["Version"]: "number" },
+            { primaryKey: "ID", version: "Version" }
+        );
+
+        it("holds the lock only while committing", async () => {
+            const lock = createFakeLock();
+            const { environment } = setup(VERSIONED, { lock });
+            const tryLock = vi.spyOn(lock, "tryLock");
+
+            const result = await useSheetQuery(
+                ([users]) => {
+                    const heldWhileRunning = lock.hasLock();
+                    users.update("1", { ["Age"]: 31 });
+                    users.commit();
+                    return heldWhileRunning;
+                },
+                [versionedConfig] as const,
+                { environment, optimistic: true }
+            );
+
+            expect(result.isOk() && result.value).toBe(false);
+            expect(tryLock).toHaveBeenCalledTimes(1);
+            expect(lock.hasLock()).toBe(false);
+        });
+
+        it("refuses to write over rows changed in the meantime", async () => {
+            const { environment, sheet } = setup(VERSIONED);
+
+            const result = await useSheetQuery(
+                ([users]) => {
+                    users.update("1", { ["Age"]: 31 });
+                    sheet.getRange(2, 3, 1, 2).setValues([[32, 2]]);
+                    users.commit();
+                },
+                [versionedConfig] as const,
+                { environment, optimistic: true }
+            );
+
+            expect(result.isErr() && result.error).toMatchObject({
+                code: "CONFLICT",
+            });
+            expect(sheet.dump()[1]).toEqual(["1", "Alice", 32, 2]);
+        });
+    });
+});
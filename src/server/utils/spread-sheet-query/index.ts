@@ -1,345 +1,1162 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { Err, Ok } from "@/utils/result";
-import { ToActualType, TypeName } from "./types/utils";
+import { Err, Ok, Result } from "@/utils/result";
+import { auditEntriesOf, auditSheet } from "./audit";
+import { ReadCache, findStaleRows, readCacheOf } from "./cache";
+import { CodingContext, decodeRows, encodeRows } from "./coerce";
+import { codec, enumOf, json, list } from "./codecs";
+import { column, completeRecord } from "./columns";
+import { createQueryConfig } from "./config";
+import { ScanReport, SheetPage, openCursor } from "./cursor";
+import {
+    CommitPlan,
+    CommitSummary,
+    TrackedRow,
+    applyCommitPlan,
+    computeCommitPlan,
+    revertCommitPlan,
+} from "./diff";
+import {
+    LockKind,
+    SheetQueryEnvironment,
+    appsScriptEnvironment,
+} from "./environment";
+import {
+    ConflictError,
+    InvalidConfigError,
+    LockTimeoutError,
+    RelationIntegrityError,
+    WriteFailedError,
+} from "./errors";
+import { HEADER_ROWS } from "./header";
+import {
+    assertUniqueKeys,
+    keyColumnsOf,
+    keyValueIntoRecord,
+    serializeKey,
+} from "./keys";
+import {
+    ColumnIndex,
+    headersOf,
+    layoutOf,
+    recordIntoRawValues,
+    rowIntoRecord,
+} from "./layout";
+import { locateSheet } from "./locate";
+import {
+    addColumn,
+    changeType,
+    dropColumn,
+    migrateSheet,
+    migration,
+    renameColumn,
+    reorderColumns,
+} from "./migrations";
+import { provisionSheet } from "./provision";
+import { SheetQueryBuilder, createQueryBuilder } from "./query";
+import { belongsTo } from "./relations";
+import { AuditEntry } from "./types/audit";
+import { SheetLike } from "./types/backend";
+import {
+    AnySheetQueryConfig,
+    ColumnTypes,
+    InsertRecord,
+    KeyValue,
+    PrimaryKey,
+    RelatedRecord,
+    Relation,
+    Relations,
+    SheetQueryConfig,
+    SheetRecord,
+} from "./types/config";
 
-type ColumnTypes = { readonly [key: string]: TypeName };
+import { UnitOfWork, createUnitOfWork } from "./unit-of-work";
+import { findConflicts, stampVersions, versionColumnOf } from "./versions";
 
-type SheetQueryConfig<CTs extends ColumnTypes> = {
-    id: number;
-    columnTypes: CTs;
-};
-
-const createQueryConfig = <CTs extends ColumnTypes>(
-    id: number,
-    columnTypes: CTs
-) => {
-    return { id, columnTypes } as SheetQueryConfig<CTs>;
-};
-
-const getSheetDataRangeById = (
-    sheets: GoogleAppsScript.Spreadsheet.Sheet[],
-    id: number
-) => {
-    const sheet = sheets.find((s) => s.getSheetId() === id);
-    if (sheet === undefined) {
-        throw new Error(`There's no sheet of id ${id}`);
-    }
-
-    const range = sheet.getDataRange();
-    return range;
-};
-
-const deriveSheetDataById = (range: GoogleAppsScript.Spreadsheet.Range) => {
-    const sheetValues = range.getValues();
-
-    const headers = sheetValues.slice(0, 1)[0];
-    const values = sheetValues.slice(1);
-
-    if (headers.some((h) => typeof h !== "string")) {
-        throw new Error(
-            `Some of the headers is not string (${headers.join(", ")})`
-        );
-    }
-
-    return { headers, values };
-};
+const deriveSheetData = (sheet: SheetLike, cache: ReadCache | undefined) => {
+    let cached = cache !== undefined;
+    const load = () => {
+        cached = false;
+        return sheet.getDataRange().getValues();
+    };
+    const sheetValues = cache === undefined ? load() : cache.read(load);
 
-type ColumnIndex<CTs extends ColumnTypes, Headers extends readonly string[]> = {
-    [key in keyof CTs]: keyof Headers;
-};
+    const headers = headersOf(sheet.getName(), sheetValues[0]);
+    const values = sheetValues.slice(HEADER_ROWS);
 
-const getColumnIndices = <
-    CTs extends ColumnTypes,
-    Headers extends readonly string[]
->(
-    headers: Headers,
-    columnType: CTs
-): ColumnIndex<CTs, Headers> => {
-    return headers.reduce((acc, h, i) => {
-        if (columnType[h] !== undefined) {
-            return { ...acc, [h]: i };
-        }
-        throw new Error(`Unknown column name: "${h}"`);
-    }, {} as ColumnIndex<CTs, Headers>);
+    return { headers, values, sheetValues, cached };
 };
 
-const recordIntoRawValues = <
-    CTs extends ColumnTypes,
-    Headers extends readonly string[]
->(
-    record: SheetRecord<CTs>,
-    columnIndices: ColumnIndex<CTs, Headers>
-) =>
-    Object.entries(record).reduce((acc, [k, v]) => {
-        acc[columnIndices[k] as number] = v;
-        return acc;
-    }, [] as any[]);
-
 const createRecordIO = <
     CTs extends ColumnTypes,
     Headers extends readonly string[]
 >(
     values: ReadonlyArray<ReadonlyArray<any>>,
-    columnIndices: ColumnIndex<CTs, Headers>
+    columnIndices: ColumnIndex<CTs, Headers>,
+    width: number
 ): {
-    getRaw: () => ReadonlyArray<ReadonlyArray<any>>;
-    read: SheetRecordReader<CTs>;
-    write: SheetRecordWriter<CTs>;
+    getRows: () => ReadonlyArray<TrackedRow<ReadonlyArray<any>>>;
+    read: () => SheetRecord<CTs>[];
+    readAt: (index: number) => SheetRecord<CTs>;
+    replace: (records: readonly SheetRecord<CTs>[]) => void;
+    append: (records: readonly SheetRecord<CTs>[]) => void;
+    remove: (condition: (record: SheetRecord<CTs>) => boolean) => void;
+    updateAt: (updates: ReadonlyMap<number, SheetRecord<CTs>>) => void;
+    removeAt: (index: number) => void;
+    rebase: (committed: ReadonlyArray<ReadonlyArray<any>>) => void;
 } => {
-    let raw = values.slice();
+    const track = (rows: ReadonlyArray<ReadonlyArray<any>>) =>
+        rows.map((values, origin) => ({ origin, values }));
 
-    const getter = <Key extends keyof CTs>(
-        row: (typeof raw)[number],
-        key: Key
-    ): ToActualType<CTs[Key]> => {
-        return row[columnIndices[key] as keyof typeof row];
-    };
+    let rows: ReadonlyArray<TrackedRow<ReadonlyArray<any>>> = track(values);
+    let loaded = rows.length;
+    // Rows as last loaded or committed; undeclared columns of a rewritten row are taken from here,
+    // to compare it against the sheet, but never written back.
+    let baseline = values;
+    const blank: ReadonlyArray<any> = Array.from({ length: width }, () => "");
 
-    const read = () =>
-        raw.map(
-            (row) =>
-                <Key extends keyof CTs>(key: Key) =>
-                    getter(row, key)
-        );
+    const toRecord = ({ values }: (typeof rows)[number]) =>
+        rowIntoRecord(values, columnIndices);
+
+    const read = () => rows.map(toRecord);
+    const readAt = (index: number) => toRecord(rows[index]);
+
+    // Replaced records take over the loaded rows in order, so unchanged rows are not rewritten.
+    const replace = (records: readonly SheetRecord<CTs>[]) => {
+        rows = records.map((r, i) => ({
+            origin: i < loaded ? i : undefined,
+            values: recordIntoRawValues(
+                r,
+                columnIndices,
+                i < loaded ? baseline[i] : blank
+            ),
+        }));
+    };
 
-    const write = (
-        base: ReadonlyArray<ReadonlyArray<any>>,
-        records: readonly SheetRecord<CTs>[]
-    ) => {
-        raw = [
-            ...base,
-            ...records.map((r) => recordIntoRawValues(r, columnIndices)),
+    const append = (records: readonly SheetRecord<CTs>[]) => {
+        rows = [
+            ...rows,
+            ...records.map((r) => ({
+                origin: undefined,
+                values: recordIntoRawValues(r, columnIndices, blank),
+            })),
         ];
     };
 
-    return { getRaw: () => raw, read, write };
+    const remove = (condition: (record: SheetRecord<CTs>) => boolean) => {
+        rows = rows.filter((row) => !condition(toRecord(row)));
+    };
+
+    // Rewrites every row given a record in one pass, keyed by the index of the row.
+    const updateAt = (updates: ReadonlyMap<number, SheetRecord<CTs>>) => {
+        rows = rows.map((row, i) => {
+            const record = updates.get(i);
+            return record === undefined
+                ? row
+                : {
+                      origin: row.origin,
+                      values: recordIntoRawValues(
+                          record,
+                          columnIndices,
+                          row.values
+                      ),
+                  };
+        });
+    };
+
+    const removeAt = (index: number) => {
+        rows = rows.filter((_, i) => i !== index);
+    };
+
+    const rebase = (committed: ReadonlyArray<ReadonlyArray<any>>) => {
+        baseline = committed;
+        rows = track(baseline);
+        loaded = rows.length;
+    };
+
+    return {
+        getRows: () => rows,
+        read,
+        readAt,
+        replace,
+        append,
+        remove,
+        updateAt,
+        removeAt,
+        rebase,
+    };
 };
 
-type FakeRecord<CTs extends ColumnTypes> = <Key extends keyof CTs>(
-    key: Key
-) => ToActualType<CTs[Key]>;
-
-const fakeRecordIntoRecord = <CTs extends ColumnTypes>(
-    fake: FakeRecord<CTs>,
-    columnTypes: CTs
-): SheetRecord<CTs> =>
-    Object.keys(columnTypes).reduce((acc, k) => {
-        return { ...acc, [k]: fake(k) };
-    }, {} as SheetRecord<CTs>);
-
-type SheetRecordReader<CTs extends ColumnTypes> = () => ReadonlyArray<
-    FakeRecord<CTs>
->;
-
-type SheetRecordWriter<CTs extends ColumnTypes> = (
-    raw: ReadonlyArray<ReadonlyArray<any>>,
-    records: readonly SheetRecord<CTs>[]
-) => void;
-
-type SheetRecord<CTs extends ColumnTypes> = {
-    [key in keyof CTs]: ToActualType<CTs[key]>;
+type KeyedSheetQuery<CTs extends ColumnTypes, PK extends PrimaryKey<CTs>> = {
+    /**
+     * Find a record by its primary key.
+     * @param key Key value, or an object of the key columns for a composite key.
+     * @returns The record, or `undefined` if no record has the key.
+     */
+    findByKey(key: KeyValue<CTs, PK>): SheetRecord<CTs> | undefined;
+
+    /**
+     * Change some columns of a single record.
+     * @param key Key of the record to be changed.
+     * @param changes Columns to be overwritten.
+     * @returns The updated record, or `undefined` if no record has the key.
+     */
+    update(
+        key: KeyValue<CTs, PK>,
+        changes: Partial<SheetRecord<CTs>>
+    ): SheetRecord<CTs> | undefined;
+
+    /**
+     * Replace records whose key already exists and append the others.
+     * @param records Records to be inserted or updated.
+     * @returns Numbers of records inserted and updated.
+     */
+    upsert(records: readonly InsertRecord<CTs>[]): {
+        inserted: number;
+        updated: number;
+    };
+
+    /**
+     * Delete a single record.
+     * @param key Key of the record to be deleted.
+     * @returns `true` if a record was deleted.
+     */
+    deleteByKey(key: KeyValue<CTs, PK>): boolean;
 };
 
-type SheetQuery<CTs extends ColumnTypes> = {
+type SheetQuery<
+    CTs extends ColumnTypes,
+    PK extends PrimaryKey<CTs> | undefined = undefined,
+    Rel extends Relations<CTs> = NonNullable<unknown>
+> = {
     /**
-     * Read all records from the sheet.
+     * Read all records from the sheet, including changes not committed yet.
      * @returns An array of all records in the sheet.
      */
-    read(): SheetRecordReader<CTs>;
+    read(): SheetRecord<CTs>[];
 
     /**
      * Replace all records in the sheet.
-     * @param records Records to be set.
+     * @param records Records to be set. Omitted columns take their default, `null` or `undefined`.
      */
-    set(records: SheetRecord<CTs>[]): void;
+    set(records: InsertRecord<CTs>[]): void;
 
     /**
      * Append records at the bottom of the sheet.
-     * @param records Records to be appended.
+     * @param records Records to be appended. Omitted columns take their default, `null` or `undefined`.
      */
-    append(records: SheetRecord<CTs>[]): void;
+    append(records: InsertRecord<CTs>[]): void;
 
     /**
      * Delete records based on the specified condition.
      * @param condition A function that returns true if the record should be deleted.
      *                  Records satisfying this condition will be removed from the sheet.
      */
-    delete(condition: (record: FakeRecord<CTs>) => boolean): void;
+    deleteIf(condition: (record: SheetRecord<CTs>) => boolean): void;
 
     /**
-     * Reflect data onto sheet.
+     * Start a query over the current records.
+     * @example
+     * user.query()
+     *     .where("Age", ">=", 20)
+     *     .orderBy("Name")
+     *     .limit(10)
+     *     .select("User ID", "Name")
+     *     .get();
      */
-    reflect(): void;
-};
+    query(): SheetQueryBuilder<SheetRecord<CTs>>;
 
-type SheetQueryConfigs<Templates extends readonly ColumnTypes[]> = {
-    readonly [key in keyof Templates]: SheetQueryConfig<Templates[key]>;
-};
+    /**
+     * Read all records together with the records they refer to.
+     * @param relations Names of relations declared on the config.
+     * @returns Records with each relation attached under its name,
+     *          or `undefined` where the referred record does not exist.
+     * @example
+     * user.include("group").forEach((u) => console.log(u["Name"], u.group?.["Name"]));
+     */
+    include<N extends keyof Rel & string>(
+        ...relations: readonly N[]
+    ): (SheetRecord<CTs> & {
+        [name in N]: RelatedRecord<Rel[name]> | undefined;
+    })[];
+
+    /**
+     * Write the changes onto the sheet.
+     * Only rows that differ from the loaded ones are written; removed rows are deleted from the sheet.
+     * Within an atomic `useSheetQuery`, nothing is written here; changes are checked and
+     * committed together with the other sheets once the procedure returns.
+     * When the config has an `audit` sink, an entry for every changed record is written to it
+     * after the sheet. Failing to do so rolls every sheet back in an atomic `useSheetQuery`,
+     * and is otherwise thrown with the sheet already written.
+     * @returns Numbers of rows inserted, updated and deleted, or to be so when atomic.
+     */
+    commit(): CommitSummary;
+} & (PK extends PrimaryKey<CTs>
+    ? KeyedSheetQuery<CTs, PK>
+    : NonNullable<unknown>);
 
-const createSheetQuery = <CTs extends ColumnTypes>(
-    config: SheetQueryConfig<CTs>,
-    sheets: GoogleAppsScript.Spreadsheet.Sheet[]
-): SheetQuery<CTs> => {
-    const { id, columnTypes } = config;
+/**
+ * Returns the query of a config, so related sheets are loaded once and share pending changes.
+ */
+type QueryResolver = (
+    config: AnySheetQueryConfig
+) => SheetQuery<any, any, any>;
+
+/**
+ * Runs a commit, its verification included, e.g. while holding a lock.
+ */
+type CommitGuard = <T>(write: () => T) => T;
 
-    const range = getSheetDataRangeById(sheets, id);
-    const { headers, values } = deriveSheetDataById(range);
+const unguarded: CommitGuard = (write) => write();
 
-    const columnIndices = getColumnIndices(headers, columnTypes);
+export const createSheetQuery = <
+    CTs extends ColumnTypes,
+    PK extends PrimaryKey<CTs> | undefined = undefined,
+    Rel extends Relations<CTs> = NonNullable<unknown>
+>(
+    config: SheetQueryConfig<CTs, PK, Rel>,
+    environment: SheetQueryEnvironment,
+    resolve: QueryResolver = createQueryResolver(environment),
+    unitOfWork?: UnitOfWork,
+    guard: CommitGuard = unguarded
+): SheetQuery<CTs, PK, Rel> => {
+    const { columnTypes, primaryKey, relations, tolerant } = config;
 
-    const { getRaw, read, write } = createRecordIO(values, columnIndices);
+    const sheet = locateSheet(environment, config);
+    const cache = readCacheOf(config, sheet, environment);
+    const { headers, values, sheetValues, cached } = deriveSheetData(
+        sheet,
+        cache
+    );
 
-    return {
-        read: () => read,
-        set: (args: readonly SheetRecord<CTs>[]) => {
-            write([], args);
+    const { columnIndices, names, types } = layoutOf(
+        headers,
+        columnTypes,
+        sheet.getName(),
+        tolerant
+    );
+    const context: CodingContext = { timeZone: environment.getTimeZone() };
+    // Only these are written, so undeclared columns keep their formulas when tolerant.
+    const declared = types.flatMap((type, i) =>
+        type === undefined ? [] : [i]
+    );
+
+    const decoded = decodeRows(values, types, names, context);
+    if (decoded.isErr()) {
+        throw decoded.error;
+    }
+
+    const {
+        getRows,
+        read,
+        readAt,
+        replace,
+        append,
+        remove,
+        updateAt,
+        removeAt,
+        rebase,
+    } = createRecordIO(decoded.value, columnIndices, headers.length);
+
+    const encode = (rows: ReadonlyArray<ReadonlyArray<unknown>>) => {
+        const encoded = encodeRows(rows, types, names, context);
+        if (encoded.isErr()) {
+            throw encoded.error;
+        }
+        return encoded.value;
+    };
+
+    let snapshot = encode(decoded.value);
+    // Rows served by the cache may be out of date, so they are checked against the sheet
+    // before anything is written, or kept to roll back to.
+    let unverified = cached;
+    // Records as last loaded or committed, which audit entries are taken against.
+    let committedRecords = read();
+    // Audit entries of a commit, recorded once the commit is settled.
+    let pendingAudit: readonly AuditEntry[] = [];
+
+    const keyColumns =
+        primaryKey === undefined ? [] : keyColumnsOf<CTs>(primaryKey);
+    const versionColumn = versionColumnOf(
+        config.version as string | undefined,
+        columnTypes,
+        names,
+        sheet.getName()
+    );
+    const assertUnique = (records: readonly SheetRecord<CTs>[]) => {
+        if (keyColumns.length > 0) {
+            assertUniqueKeys<SheetRecord<CTs>>(
+                records,
+                keyColumns,
+                sheet.getName()
+            );
+        }
+    };
+
+    // Map from the referenced value to the target record, for a relation.
+    const lookupOf = (relation: Relation) => {
+        const { target } = relation;
+        const references =
+            relation.references ??
+            (typeof target.primaryKey === "string"
+                ? target.primaryKey
+                : undefined);
+        if (references === undefined) {
+            throw new InvalidConfigError(
+                sheet.getName(),
+                `Relation through "${String(
+                    relation.foreignKey
+                )}" needs "references", as the target has no single-column primary key`
+            );
+        }
+
+        const targets: readonly Record<PropertyKey, unknown>[] = resolve(target)
+            .query()
+            .get();
+        return new Map(
+            targets.map((t) => [serializeKey(t, [references]), t] as const)
+        );
+    };
+    const foreignKeyOf = (
+        record: SheetRecord<CTs>,
+        relation: Relations<CTs>[string]
+    ) => serializeKey<SheetRecord<CTs>>(record, [relation.foreignKey]);
+
+    const assertIntegrity = (records: readonly SheetRecord<CTs>[]) => {
+        Object.entries(relations as Relations<CTs>)
+            .filter(([, relation]) => relation.enforce)
+            .forEach(([name, relation]) => {
+                const lookup = lookupOf(relation);
+                const missing = records
+                    .map((r) => r[relation.foreignKey])
+                    .filter(
+                        (v, i) =>
+                            v !== undefined &&
+                            v !== null &&
+                            v !== "" &&
+                            !lookup.has(foreignKeyOf(records[i], relation))
+                    );
+                if (missing.length > 0) {
+                    throw new RelationIntegrityError(
+                        sheet.getName(),
+                        name,
+                        String(relation.foreignKey),
+                        Array.from(new Set(missing))
+                    );
+                }
+            });
+    };
+
+    const planCommit = () => {
+        assertUnique(read());
+        assertIntegrity(read());
+
+        const current = getRows();
+        const rowValues = current.map(({ values }) => values);
+        const encoded = encode(rowValues);
+        const tracked = current.map(({ origin }, i) => ({
+            origin,
+            values: encoded[i],
+        }));
+        const { decoded, encoded: rows } =
+            versionColumn === undefined
+                ? { decoded: rowValues, encoded: tracked }
+                : stampVersions(
+                      snapshot,
+                      rowValues,
+                      tracked,
+                      versionColumn,
+                      environment.now()
+                  );
+
+        return { rows, decoded, plan: computeCommitPlan(snapshot, rows) };
+    };
+
+    // Plan checked by the last `verify`, which the commit following it writes.
+    let verified: ReturnType<typeof planCommit> | undefined;
+
+    // Rows changed on the sheet since they were loaded that the commit would write over.
+    // Planning first throws on invalid changes before any sheet of a unit of work is written.
+    const verify = () => {
+        verified = planCommit();
+        if (versionColumn === undefined && !unverified) {
+            return undefined;
+        }
+
+        const latestValues = sheet.getDataRange().getValues();
+        if (unverified) {
+            const stale = findStaleRows(sheetValues, latestValues);
+            if (stale.length > 0) {
+                cache?.invalidate();
+                return new ConflictError(sheet.getName(), stale);
+            }
+            unverified = false;
+        }
+        if (versionColumn === undefined) {
+            return undefined;
+        }
+
+        const latest = latestValues.slice(HEADER_ROWS);
+        const conflicts = findConflicts(
+            snapshot,
+            latest,
+            verified.rows,
+            versionColumn,
+            keyColumns.map((c) => names.indexOf(String(c)))
+        );
+        if (conflicts.length === 0) {
+            return undefined;
+        }
+
+        // The cached rows may be what was out of date.
+        cache?.invalidate();
+        return new ConflictError(sheet.getName(), conflicts);
+    };
+
+    const auditEntries = (decoded: ReadonlyArray<ReadonlyArray<any>>) =>
+        config.audit === undefined
+            ? []
+            : auditEntriesOf<SheetRecord<CTs>>(
+                  committedRecords,
+                  getRows().map(({ origin }, i) => ({
+                      origin,
+                      values: rowIntoRecord(decoded[i], columnIndices),
+                  })),
+                  keyColumns,
+                  Object.keys(columnTypes),
+                  {
+                      timestamp: new Date(environment.now()),
+                      user: environment.getActiveUser(),
+                      sheet: sheet.getName(),
+                  }
+              );
+
+    // Plan being written and how many of its deletions are done, for a rollback to revert.
+    let written: { plan: CommitPlan; deleted: number } | undefined;
+
+    const commit = () => {
+        const { rows, decoded, plan } = verified ?? planCommit();
+        verified = undefined;
+        const entries = auditEntries(decoded);
+        const progress = { plan, deleted: 0 };
+        written = progress;
+        try {
+            applyCommitPlan(sheet, plan, headers.length, declared, () => {
+                progress.deleted++;
+            });
+        } catch (error) {
+            throw new WriteFailedError(sheet.getName(), error);
+        } finally {
+            // Even a failed write may have changed part of the sheet.
+            const { inserted, updated, deleted } = plan.summary;
+            if (inserted + updated + deleted > 0) {
+                cache?.invalidate();
+            }
+        }
+
+        snapshot = rows.map(({ values }) => values);
+        rebase(decoded);
+        committedRecords = read();
+        pendingAudit = [...pendingAudit, ...entries];
+
+        return plan.summary;
+    };
+
+    const settle = () => {
+        const entries = pendingAudit;
+        pendingAudit = [];
+        if (entries.length > 0) {
+            config.audit?.write(entries, environment);
+        }
+    };
+
+    unitOfWork?.enlist({
+        sheetName: sheet.getName(),
+        verify,
+        commit,
+        settle,
+        rollback: () => {
+            pendingAudit = [];
+            if (written !== undefined) {
+                revertCommitPlan(
+                    sheet,
+                    written.plan,
+                    values,
+                    headers.length,
+                    declared,
+                    written.deleted
+                );
+                written = undefined;
+            }
         },
-        append: (args: readonly SheetRecord<CTs>[]) => {
-            write(getRaw(), args);
+    });
+
+    const complete = (args: readonly InsertRecord<CTs>[]) =>
+        args.map((r) => completeRecord<SheetRecord<CTs>>(r, columnTypes));
+
+    const base = {
+        read,
+        set: (args: readonly InsertRecord<CTs>[]) => {
+            const completed = complete(args);
+            assertUnique(completed);
+            replace(completed);
         },
-        delete: (condition: (record: FakeRecord<CTs>) => boolean) => {
-            const records = read()
-                .filter((r) => !condition(r))
-                .map((r) => fakeRecordIntoRecord(r, columnTypes));
-            write([], records);
+        append: (args: readonly InsertRecord<CTs>[]) => {
+            const completed = complete(args);
+            assertUnique([...read(), ...completed]);
+            append(completed);
         },
-        reflect: () => {
-            range.setValues([headers, ...(getRaw() as any[])]);
+        deleteIf: (condition: (record: SheetRecord<CTs>) => boolean) => {
+            remove(condition);
+        },
+        query: () => createQueryBuilder(read),
+        include: (...names: readonly string[]) => {
+            const lookups = names.map((name) => {
+                const relation = (relations as Relations<CTs>)[name];
+                if (relation === undefined) {
+                    throw new InvalidConfigError(
+                        sheet.getName(),
+                        `Unknown relation: "${name}"`
+                    );
+                }
+                return { name, relation, lookup: lookupOf(relation) };
+            });
+
+            return read().map((r) =>
+                lookups.reduce(
+                    (acc, { name, relation, lookup }) => ({
+                        ...acc,
+                        [name]: lookup.get(foreignKeyOf(r, relation)),
+                    }),
+                    r
+                )
+            );
+        },
+        commit: () => {
+            if (unitOfWork !== undefined) {
+                return planCommit().plan.summary;
+            }
+
+            return guard(() => {
+                const conflict = verify();
+                if (conflict !== undefined) {
+                    throw conflict;
+                }
+
+                const summary = commit();
+                settle();
+                return summary;
+            });
         },
     };
-};
 
-type SheetQueries<Templates extends readonly ColumnTypes[]> = {
-    readonly [key in keyof Templates]: SheetQuery<Templates[key]>;
-};
+    if (keyColumns.length === 0) {
+        return base as unknown as SheetQuery<CTs, PK, Rel>;
+    }
 
-const createSheetQueries = <Templates extends readonly ColumnTypes[]>(
-    configs: SheetQueryConfigs<Templates>,
-    sheets: GoogleAppsScript.Spreadsheet.Sheet[]
-): SheetQueries<Templates> => {
-    const queries = configs.reduce((qs, c, i) => {
-        return { ...qs, [i]: createSheetQuery(c, sheets) };
-    }, {} as SheetQueries<Templates>);
+    // Index of each key among the current rows, rebuilt whenever the rows change.
+    let keyIndex: { rows: unknown; indices: Map<string, number> } | undefined;
+    const indexOfRecord = (record: Partial<SheetRecord<CTs>>) => {
+        const rows = getRows();
+        if (keyIndex?.rows !== rows) {
+            keyIndex = {
+                rows,
+                indices: new Map(
+                    read().map((r, i) => [
+                        serializeKey<SheetRecord<CTs>>(r, keyColumns),
+                        i,
+                    ])
+                ),
+            };
+        }
+        return keyIndex.indices.get(
+            serializeKey<Partial<SheetRecord<CTs>>>(record, keyColumns)
+        );
+    };
+    const indexOf = (key: unknown) =>
+        indexOfRecord(keyValueIntoRecord<SheetRecord<CTs>>(key, keyColumns));
+
+    const keyed: KeyedSheetQuery<CTs, PrimaryKey<CTs>> = {
+        findByKey: (key) => {
+            const index = indexOf(key);
+            return index === undefined ? undefined : readAt(index);
+        },
+        update: (key, changes) => {
+            const index = indexOf(key);
+            if (index === undefined) {
+                return undefined;
+            }
+
+            const current = read();
+            const updated = { ...current[index], ...changes };
+            assertUnique(current.map((r, i) => (i === index ? updated : r)));
+
+            updateAt(new Map([[index, updated]]));
+            return updated;
+        },
+        upsert: (args) => {
+            const completed = complete(args);
+            assertUnique(completed);
+
+            // Looked up before any change, so the index is built once.
+            const updates = new Map<number, SheetRecord<CTs>>();
+            const inserts = completed.filter((record) => {
+                const index = indexOfRecord(record);
+                if (index !== undefined) {
+                    updates.set(index, record);
+                }
+                return index === undefined;
+            });
+            updateAt(updates);
+            append(inserts);
 
-    return queries;
+            return {
+                inserted: inserts.length,
+                updated: args.length - inserts.length,
+            };
+        },
+        deleteByKey: (key) => {
+            const index = indexOf(key);
+            if (index === undefined) {
+                return false;
+            }
+
+            removeAt(index);
+            return true;
+        },
+    };
+
+    return { ...base, ...keyed } as unknown as SheetQuery<CTs, PK, Rel>;
 };
 
-const lock = LockService.getScriptLock();
+const createQueryResolver = (
+    environment: SheetQueryEnvironment,
+    unitOfWork?: UnitOfWork,
+    guard?: CommitGuard
+): QueryResolver => {
+    const queries = new Map<AnySheetQueryConfig, SheetQuery<any, any, any>>();
 
-export const useSheetQuery = async <Templates extends readonly ColumnTypes[]>(
-    proc: (query: SheetQueries<Templates>) => void,
-    configs: SheetQueryConfigs<Templates>,
-    options?: Partial<{
-        timeouts: number;
-    }>
-) => {
-    const defaultOptions = {
-        timeouts: 5000,
-    } as const;
-    options = options ?? defaultOptions;
-    options.timeouts = options.timeouts ?? defaultOptions.timeouts;
+    const resolve: QueryResolver = (config) => {
+        const cached = queries.get(config);
+        if (cached !== undefined) {
+            return cached;
+        }
 
-    try {
-        lock.waitLock(options.timeouts);
+        const query = createSheetQuery(
+            config,
+            environment,
+            resolve,
+            unitOfWork,
+            guard
+        );
+        queries.set(config, query);
+        return query;
+    };
+
+    return resolve;
+};
+
+type SheetQueries<Configs extends readonly AnySheetQueryConfig[]> = {
+    readonly [key in keyof Configs]: Configs[key] extends SheetQueryConfig<
+        infer CTs,
+        infer PK,
+        infer Rel
+    >
+        ? SheetQuery<CTs, PK, Rel>
+        : never;
+};
 
-        const sheets = SpreadsheetApp.getActive().getSheets();
-        const queries = createSheetQueries<{
-            readonly [key in keyof Templates]: Templates[key];
-        }>(configs, sheets);
+const createSheetQueries = <Configs extends readonly AnySheetQueryConfig[]>(
+    configs: Configs,
+    environment: SheetQueryEnvironment,
+    unitOfWork?: UnitOfWork,
+    guard?: CommitGuard
+): SheetQueries<Configs> => {
+    const resolve = createQueryResolver(environment, unitOfWork, guard);
+    const queries = configs.map(resolve);
 
-        proc(queries);
+    return queries as unknown as SheetQueries<Configs>;
+};
+
+/**
+ * Run `proc`, returning anything thrown as `Err`.
+ */
+const attempt = <T>(proc: () => Result<T, Error>): Result<T, Error> => {
+    try {
+        const result = proc();
+        if (result.isErr()) {
+            console.error(result.error);
+        }
+        return result;
     } catch (error) {
         if (error instanceof Error) {
             console.error(error);
             return Err(error);
         }
         return Err(new Error(`${error}`));
+    }
+};
+
+type LockOptions = {
+    /**
+     * Lock held while the work runs. `"none"` suits read-only work.
+     */
+    lock: LockKind | "none";
+    /**
+     * Milliseconds each attempt waits for the lock.
+     */
+    timeouts: number;
+    /**
+     * Further attempts at the lock once the first one timed out.
+     */
+    retries: number;
+    /**
+     * Pause before the first retry, doubled before each further one.
+     */
+    backoffInMillis: number;
+};
+
+const acquireLock = (
+    environment: SheetQueryEnvironment,
+    { lock: kind, timeouts, retries, backoffInMillis }: LockOptions
+) => {
+    if (kind === "none") {
+        return undefined;
+    }
+
+    const lock = environment.getLock(kind);
+    let attempts = 1;
+    while (!lock.tryLock(timeouts)) {
+        if (attempts > retries) {
+            throw new LockTimeoutError(timeouts, attempts);
+        }
+        environment.sleep(backoffInMillis * 2 ** (attempts - 1));
+        attempts++;
+    }
+    return lock;
+};
+
+/**
+ * Run `proc` while holding the lock chosen in `options`, throwing when it cannot be had.
+ */
+const withLock = <T>(
+    environment: SheetQueryEnvironment,
+    options: Partial<LockOptions> | undefined,
+    proc: () => T
+): T => {
+    const lock = acquireLock(environment, {
+        lock: options?.lock ?? defaultOptions.lock,
+        timeouts: options?.timeouts ?? defaultOptions.timeouts,
+        retries: options?.retries ?? defaultOptions.retries,
+        backoffInMillis:
+            options?.backoffInMillis ?? defaultOptions.backoffInMillis,
+    });
+
+    try {
+        return proc();
     } finally {
-        lock.releaseLock();
+        lock?.releaseLock();
     }
+};
 
-    return Ok(undefined);
+/**
+ * Run `proc` while holding the lock chosen in `options`.
+ * Anything thrown, including a failure to get the lock, is returned as `Err`.
+ */
+const runLocked = <T>(
+    environment: SheetQueryEnvironment,
+    options: Partial<LockOptions> | undefined,
+    proc: () => Result<T, Error>
+): Result<T, Error> => attempt(() => withLock(environment, options, proc));
+
+const defaultOptions = {
+    lock: "script",
+    timeouts: 5000,
+    retries: 0,
+    backoffInMillis: 500,
+    environment: appsScriptEnvironment,
+    atomic: false,
+    optimistic: false,
+    batchSize: 500,
+    // Apps Script stops an execution after 6 minutes.
+    budgetInMillis: 4 * 60 * 1000,
+    pageSize: 50,
+} as const;
+
+export const useSheetQuery = async <
+    Configs extends readonly AnySheetQueryConfig[],
+    T
+>(
+    proc: (query: SheetQueries<Configs>) => T,
+    configs: Configs,
+    options?: Partial<
+        LockOptions & {
+            environment: SheetQueryEnvironment;
+            /**
+             * Commit every loaded sheet together once `proc` returns, instead of on each `commit`.
+             * If a sheet fails to be written, the sheets written so far are restored
+             * and a `RollbackError` is returned; if one has a conflict, nothing is written
+             * and the `ConflictError` is returned.
+             */
+            atomic: boolean;
+            /**
+             * Hold the lock only while each commit is verified and written, instead of while `proc` runs.
+             * Only sheets whose configs declare a `version` column are safe to write this way:
+             * what others change in the meantime is then refused with a `ConflictError`
+             * rather than written over.
+             */
+            optimistic: boolean;
+        }
+    >
+) => {
+    const environment = options?.environment ?? defaultOptions.environment;
+    const atomic = options?.atomic ?? defaultOptions.atomic;
+    const optimistic = options?.optimistic ?? defaultOptions.optimistic;
+
+    const guard: CommitGuard = optimistic
+        ? (write) => withLock(environment, options, write)
+        : unguarded;
+    const run = <R>(work: () => Result<R, Error>) =>
+        optimistic ? attempt(work) : runLocked(environment, options, work);
+
+    return run(() => {
+        const unitOfWork = atomic ? createUnitOfWork() : undefined;
+        const queries = createSheetQueries(
+            configs,
+            environment,
+            unitOfWork,
+            guard
+        );
+
+        const result = proc(queries);
+
+        const committed =
+            unitOfWork === undefined
+                ? undefined
+                : guard(() => unitOfWork.commit());
+        if (committed?.isErr()) {
+            return Err(committed.error);
+        }
+        return Ok(result);
+    });
+};
+
+/**
+ * Bring the sheets of `configs` up to date with their migrations, holding the lock.
+ * Sheets record the version they are at, so running this again only applies newer migrations.
+ * @returns Versions applied to each sheet, in the order of `configs`.
+ */
+export const migrateSheets = async (
+    configs: readonly AnySheetQueryConfig[],
+    options?: Partial<
+        LockOptions & {
+            environment: SheetQueryEnvironment;
+        }
+    >
+) => {
+    const environment = options?.environment ?? defaultOptions.environment;
+
+    return runLocked(environment, options, () =>
+        Ok(configs.map((config) => migrateSheet(config, environment)))
+    );
+};
+
+/**
+ * Create or repair the sheets of `configs`, holding the lock: typed header row, frozen header,
+ * and number formats and validation rules fitting each column.
+ * Sheets addressed by name are created when missing.
+ * @returns What was changed on each sheet, in the order of `configs`.
+ */
+export const provisionSheets = async (
+    configs: readonly AnySheetQueryConfig[],
+    options?: Partial<
+        LockOptions & {
+            environment: SheetQueryEnvironment;
+        }
+    >
+) => {
+    const environment = options?.environment ?? defaultOptions.environment;
+
+    return runLocked(environment, options, () =>
+        Ok(configs.map((config) => provisionSheet(config, environment)))
+    );
+};
+
+/**
+ * Visit the records of a sheet a batch of rows at a time, stopping before the time budget runs out.
+ * Reading does not take the lock, so other executions may write between two batches.
+ * @param visit Called on every record, in sheet order.
+ * @returns Number of records visited, and a token to resume from in a later execution,
+ *          or `undefined` as `next` once the sheet was read to the end.
+ * @example
+ * const scanned = await scanSheet(userQueryConfig, (user) => notify(user), {
+ *     token: PropertiesService.getScriptProperties().getProperty("scan") ?? undefined,
+ * });
+ */
+export const scanSheet = async <CTs extends ColumnTypes>(
+    config: SheetQueryConfig<CTs, any, any>,
+    visit: (record: SheetRecord<CTs>) => void,
+    options?: Partial<{
+        environment: SheetQueryEnvironment;
+        /**
+         * Rows read from the sheet at a time.
+         */
+        batchSize: number;
+        /**
+         * Milliseconds the scan may take. Leave a margin below the execution time limit
+         * for what the script does besides the scan.
+         */
+        budgetInMillis: number;
+        /**
+         * `next` of an earlier scan of the same sheet, to resume from.
+         */
+        token: string;
+    }>
+): Promise<Result<ScanReport, Error>> => {
+    const environment = options?.environment ?? defaultOptions.environment;
+    const batchSize = options?.batchSize ?? defaultOptions.batchSize;
+    const budget = options?.budgetInMillis ?? defaultOptions.budgetInMillis;
+
+    return attempt<ScanReport>(() => {
+        const cursor = openCursor(config, environment, options?.token);
+        const startedAt = environment.now();
+        let visited = 0;
+        let slowest = 0;
+
+        while (!cursor.done()) {
+            const batchStartedAt = environment.now();
+            // Stop before a batch that may not fit, judging from the slowest one so far.
+            if (batchStartedAt - startedAt + slowest > budget) {
+                return Ok({ visited, next: cursor.token() });
+            }
+
+            const records = cursor.read(batchSize);
+            records.forEach(visit);
+            visited += records.length;
+            slowest = Math.max(slowest, environment.now() - batchStartedAt);
+        }
+        return Ok({ visited, next: undefined });
+    });
 };
 
-// example
-// -----------------------------
-
-const USER_SHEET_ID = 1000;
-const GROUP_SHEET_ID = 2000;
-
-const userQueryConfig = createQueryConfig(USER_SHEET_ID, {
-    ["User ID"]: "string",
-    ["Group ID"]: "string",
-    ["Name"]: "string",
-    ["Age"]: "number",
-    ["Is Employed"]: "boolean",
-});
-
-const groupQueryConfig = createQueryConfig(GROUP_SHEET_ID, {
-    ["Group ID"]: "string",
-    ["Name"]: "string",
-    ["Ave. Grades"]: "number",
-});
-
-// eslint-disable-next-line react-hooks/rules-of-hooks
-await useSheetQuery(
-    ([user, group]) => {
-        const userData = user.read();
-
-        userData().forEach((v) => {
-            console.log(v("Name"), v("Age"));
+/**
+ * Read a page of records, e.g. from an `apiHandler` function behind an infinite list.
+ * @returns Records of the page, and a token for the next page,
+ *          or `undefined` as `next` on the last page.
+ * @example
+ * export const getUsers = apiHandler(async (token?: string) => {
+ *     const page = await readPage(userQueryConfig, { token });
+ *     ...
+ * });
+ */
+export const readPage = async <CTs extends ColumnTypes>(
+    config: SheetQueryConfig<CTs, any, any>,
+    options?: Partial<{
+        environment: SheetQueryEnvironment;
+        pageSize: number;
+        /**
+         * `next` of the previous page; the first page when omitted.
+         */
+        token: string;
+    }>
+): Promise<Result<SheetPage<SheetRecord<CTs>>, Error>> => {
+    const environment = options?.environment ?? defaultOptions.environment;
+    const pageSize = options?.pageSize ?? defaultOptions.pageSize;
+
+    return attempt(() => {
+        const cursor = openCursor(config, environment, options?.token);
+        const records = cursor.read(pageSize);
+        return Ok({
+            records,
+            next: cursor.done() ? undefined : cursor.token(),
         });
+    });
+};
+
+/**
+ * Changes recorded for a record by the `audit` sink of its config, oldest first.
+ * Like `readPage`, this is meant for display, e.g. a history panel in the UI.
+ * @param key Key value, or an object of the key columns for a composite key.
+ * @example
+ * export const getUserHistory = apiHandler(async (userId: string) => {
+ *     const history = await readHistory(userQueryConfig, userId);
+ *     ...
+ * });
+ */
+export const readHistory = async <
+    CTs extends ColumnTypes,
+    PK extends PrimaryKey<CTs>
+>(
+    config: SheetQueryConfig<CTs, PK, any>,
+    key: KeyValue<CTs, PK>,
+    options?: Partial<{
+        environment: SheetQueryEnvironment;
+    }>
+): Promise<Result<AuditEntry[], Error>> => {
+    const environment = options?.environment ?? defaultOptions.environment;
 
-        group.set([
-            {
-                ["Group ID"]: "0123",
-                ["Name"]: "aaa",
-                ["Ave. Grades"]: 1,
-            },
-        ]);
-
-        group.append([
-            {
-                ["Group ID"]: "1234",
-                ["Name"]: "bbb",
-                ["Ave. Grades"]: 2,
-            },
-        ]);
-
-        group.delete((v) => v("Ave. Grades") > 1);
-    },
-    [userQueryConfig, groupQueryConfig] as const
-);
+    return attempt(() => {
+        const sheet = locateSheet(environment, config);
+        if (config.primaryKey === undefined || config.audit === undefined) {
+            throw new InvalidConfigError(
+                sheet.getName(),
+                "Reading history needs both a primary key and an audit sink"
+            );
+        }
+
+        const keyColumns = keyColumnsOf<CTs>(config.primaryKey);
+        return Ok(
+            config.audit.history(
+                sheet.getName(),
+                serializeKey<Partial<SheetRecord<CTs>>>(
+                    keyValueIntoRecord<SheetRecord<CTs>>(key, keyColumns),
+                    keyColumns
+                ),
+                environment
+            )
+        );
+    });
+};
 
 /**
  * ```ts
- * import { createQueryConfig, useSheetQuery } from "spread-sheet-query"
+ * import { createQueryConfig, enumOf, list, useSheetQuery } from "spread-sheet-query"
  *
  * const USER_SHEET_ID = 1000;
- * const GROUP_SHEET_ID = 2000;
+ * // A sheet can also be addressed by name, in the active spreadsheet or another one.
+ * const GROUP_SHEET_NAME = "Groups";
+ * const GROUP_SPREADSHEET_URL = "https://docs.google.com/spreadsheets/d/xxxxxxxx/edit";
  *
- * const userQueryConfig = createQueryConfig(USER_SHEET_ID, {
- *     ["User ID"]: "string",
- *     ["Group ID"]: "string",
- *     ["Name"]: "string",
- *     ["Age"]: "number",
- *     ["Is Employed"]: "boolean",
- * });
+ * const userQueryConfig = createQueryConfig(
+ *     USER_SHEET_ID,
+ *     {
+ *         ["User ID"]: "string",
+ *         ["Group ID"]: "string",
+ *         ["Name"]: "string",
+ *         ["Age"]: "number",
+ *         ["Is Employed"]: "boolean",
+ *         ["Role"]: enumOf("admin", "member"),
+ *         ["Tags"]: list(),
+ *     },
+ *     { primaryKey: "User ID" }
+ * );
  *
- * const groupQueryConfig = createQueryConfig(GROUP_SHEET_ID, {
- *     ["Group ID"]: "string",
- *     ["Name"]: "string",
- *     ["Ave. Grades"]: "number",
- * });
+ * const groupQueryConfig = createQueryConfig(
+ *     GROUP_SHEET_NAME,
+ *     {
+ *         ["Group ID"]: "string",
+ *         ["Name"]: "string",
+ *         ["Ave. Grades"]: "number",
+ *     },
+ *     { primaryKey: "Group ID", spreadsheet: GROUP_SPREADSHEET_URL }
+ * );
  *
- * await useSheetQuery(
+ * // The result of the procedure, or what went wrong, as a `Result`.
+ * const names = await useSheetQuery(
  *     ([user, group]) => {
- *         const userData = user.read();
- * 
- *         userData().forEach((v) => {
- *             console.log(v("Name"), v("Age"));
+ *         user.read().forEach((v) => {
+ *             console.log(v["Name"], v["Age"]);
  *         });
- * 
+ *
  *         group.set([
  *             {
  *                 ["Group ID"]: "0123",
@@ -347,7 +1164,7 @@ await useSheetQuery(
  *                 ["Ave. Grades"]: 1,
  *             },
  *         ]);
- * 
+ *
  *         group.append([
  *             {
  *                 ["Group ID"]: "1234",
@@ -355,15 +1172,38 @@ await useSheetQuery(
  *                 ["Ave. Grades"]: 2,
  *             },
  *         ]);
- * 
- *         group.delete((v) => v("Ave. Grades") > 1);
+ *
+ *         group.deleteIf((v) => v["Ave. Grades"] > 1);
+ *
+ *         group.commit();
+ *
+ *         return user.read().map((v) => v["Name"]);
  *     },
  *     [userQueryConfig, groupQueryConfig] as const
  * );
  * ```
  */
 const SpreadSheetQuery = {
+    addColumn,
+    auditSheet,
+    belongsTo,
+    changeType,
+    codec,
+    column,
     createQueryConfig,
+    createSheetQuery,
+    dropColumn,
+    enumOf,
+    json,
+    list,
+    migrateSheets,
+    migration,
+    provisionSheets,
+    readHistory,
+    readPage,
+    renameColumn,
+    reorderColumns,
+    scanSheet,
     useSheetQuery,
 };
 
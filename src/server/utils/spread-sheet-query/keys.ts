@@ -0,0 +1,61 @@
+import { DuplicateKeyError } from "./errors";
+import { ColumnTypes, PrimaryKey } from "./types/config";
+
+export const keyColumnsOf = <CTs extends ColumnTypes>(
+    primaryKey: PrimaryKey<CTs>
+): readonly (keyof CTs)[] =>
+    Array.isArray(primaryKey)
+        ? primaryKey
+        : [primaryKey as keyof CTs];
+
+const normalize = (v: unknown) =>
+    typeof v === "bigint" ? `${v}n` : v instanceof Date ? v.getTime() : v;
+
+/**
+ * Stable string identifying the key of a record, usable as a `Map` key.
+ */
+export const serializeKey = <R extends object>(
+    record: R,
+    columns: readonly (keyof R)[]
+) => JSON.stringify(columns.map((c) => normalize(record[c])));
+
+/**
+ * Turn the value passed to `findByKey` and friends into a partial record of the key columns.
+ */
+export const keyValueIntoRecord = <R extends object>(
+    value: unknown,
+    columns: readonly (keyof R)[]
+): Partial<R> =>
+    columns.length === 1 &&
+    (typeof value !== "object" || value === null || value instanceof Date)
+        ? ({ [columns[0]]: value } as Partial<R>)
+        : (value as Partial<R>);
+
+/**
+ * Throw if two records share the same key.
+ * @param records Records to be checked.
+ * @param columns Key columns.
+ * @param sheetName Sheet name for the error message.
+ */
+export const assertUniqueKeys = <R extends object>(
+    records: readonly R[],
+    columns: readonly (keyof R)[],
+    sheetName: string
+) => {
+    const seen = new Set<string>();
+    const duplicates = records
+        .map((r) => serializeKey(r, columns))
+        .filter((key) => {
+            if (seen.has(key)) return true;
+            seen.add(key);
+            return false;
+        });
+
+    if (duplicates.length > 0) {
+        throw new DuplicateKeyError(
+            sheetName,
+            columns.map(String),
+            Array.from(new Set(duplicates))
+        );
+    }
+};
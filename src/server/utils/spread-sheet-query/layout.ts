@@ -0,0 +1,138 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { typeOf } from "./columns";
+import { HeaderMismatchError } from "./errors";
+import { parseHeader } from "./header";
+import { ColumnDefinition, ColumnTypes, SheetRecord } from "./types/config";
+
+export type ColumnIndex<
+    CTs extends ColumnTypes,
+    Headers extends readonly string[]
+> = {
+    [key in keyof CTs]: keyof Headers;
+};
+
+/**
+ * Where the columns of a config sit on a sheet.
+ */
+export type SheetLayout<
+    CTs extends ColumnTypes,
+    Headers extends readonly string[]
+> = {
+    readonly columnIndices: ColumnIndex<CTs, Headers>;
+    /**
+     * Column name of each cell of a row, without the type annotation.
+     */
+    readonly names: readonly string[];
+    /**
+     * Declared type of each cell of a row. Undeclared columns, only present when tolerant,
+     * are `undefined` and carried through untouched.
+     */
+    readonly types: readonly (ColumnDefinition | undefined)[];
+};
+
+/**
+ * Check the header row holds text only.
+ */
+export const headersOf = (
+    sheetName: string,
+    row: readonly unknown[]
+): string[] => {
+    const invalid = row.find((h) => typeof h !== "string");
+    if (invalid !== undefined) {
+        throw new HeaderMismatchError(sheetName, invalid, "not-string");
+    }
+    return row as string[];
+};
+
+const getColumnIndices = <
+    CTs extends ColumnTypes,
+    Headers extends readonly string[]
+>(
+    headers: Headers,
+    columnType: CTs,
+    sheetName: string,
+    tolerant: boolean
+): ColumnIndex<CTs, Headers> => {
+    const indices = headers.reduce((acc, h, i) => {
+        const { name, type } = parseHeader(h);
+        if (columnType[name] === undefined) {
+            if (tolerant) {
+                return acc;
+            }
+            throw new HeaderMismatchError(sheetName, h, "unknown-column");
+        }
+        if (type !== undefined && type !== typeOf(columnType[name])) {
+            throw new HeaderMismatchError(
+                sheetName,
+                h,
+                "annotation-mismatch",
+                typeOf(columnType[name])
+            );
+        }
+        return { ...acc, [name]: i };
+    }, {} as ColumnIndex<CTs, Headers>);
+
+    // Records would otherwise lack the column while their type promises it.
+    const missing = Object.keys(columnType).find((name) => !(name in indices));
+    if (missing !== undefined) {
+        throw new HeaderMismatchError(
+            sheetName,
+            missing,
+            "missing-column",
+            typeOf(columnType[missing])
+        );
+    }
+    return indices;
+};
+
+/**
+ * Match the headers of a sheet against the declared columns.
+ */
+export const layoutOf = <
+    CTs extends ColumnTypes,
+    Headers extends readonly string[]
+>(
+    headers: Headers,
+    columnTypes: CTs,
+    sheetName: string,
+    tolerant: boolean
+): SheetLayout<CTs, Headers> => {
+    const names = headers.map((h) => parseHeader(h).name);
+
+    return {
+        columnIndices: getColumnIndices(
+            headers,
+            columnTypes,
+            sheetName,
+            tolerant
+        ),
+        names,
+        types: names.map(
+            (name): ColumnDefinition | undefined => columnTypes[name]
+        ),
+    };
+};
+
+export const rowIntoRecord = <
+    CTs extends ColumnTypes,
+    Headers extends readonly string[]
+>(
+    values: ReadonlyArray<any>,
+    columnIndices: ColumnIndex<CTs, Headers>
+) =>
+    Object.entries(columnIndices).reduce((acc, [key, index]) => {
+        return { ...acc, [key]: values[index as number] };
+    }, {} as SheetRecord<CTs>);
+
+export const recordIntoRawValues = <
+    CTs extends ColumnTypes,
+    Headers extends readonly string[]
+>(
+    record: SheetRecord<CTs>,
+    columnIndices: ColumnIndex<CTs, Headers>,
+    base: ReadonlyArray<any>
+) =>
+    Object.entries(record).reduce((acc, [k, v]) => {
+        acc[columnIndices[k] as number] = v;
+        return acc;
+    }, base.slice());
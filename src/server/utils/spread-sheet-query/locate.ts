@@ -0,0 +1,39 @@
+import { SheetQueryEnvironment } from "./environment";
+import { SheetNotFoundError } from "./errors";
+import { SheetLocator } from "./types/config";
+
+const openSpreadsheet = (
+    environment: SheetQueryEnvironment,
+    { sheet, spreadsheet }: SheetLocator
+) => {
+    try {
+        return environment.getSpreadsheet(spreadsheet);
+    } catch (error) {
+        throw new SheetNotFoundError(sheet, spreadsheet, error);
+    }
+};
+
+/**
+ * Find the sheet a config points at.
+ * A number is matched against sheet ids (the `gid` of the sheet URL), a string against sheet names.
+ */
+export const locateSheet = (
+    environment: SheetQueryEnvironment,
+    locator: SheetLocator
+) => {
+    const { sheet, spreadsheet } = locator;
+
+    const found = openSpreadsheet(environment, locator)
+        .getSheets()
+        .find((s) =>
+            typeof sheet === "number"
+                ? s.getSheetId() === sheet
+                : s.getName() === sheet
+        );
+
+    if (found === undefined) {
+        throw new SheetNotFoundError(sheet, spreadsheet);
+    }
+
+    return found;
+};
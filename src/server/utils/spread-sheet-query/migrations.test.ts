@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { createQueryConfig } from "./config";
+import { createFakeEnvironment, createFakeSpreadsheet } from "./fake";
+import {
+    addColumn,
+    changeType,
+    dropColumn,
+    migrateSheet,
+    migration,
+    renameColumn,
+    reorderColumns,
+} from "./migrations";
+import { MigrationStep } from "./types/migration";
+
+const setup = (...steps: readonly MigrationStep[]) => {
+    const spreadsheet = createFakeSpreadsheet([
+        {
+            name: "Users",
+            values: [
+                ["ID", "Nickname", "Age"],
+                ["1", "Al", 30],
+                ["2", "Bo", 25],
+            ],
+        },
+    ]);
+    const [sheet] = spreadsheet.getSheets();
+    // Formatting of the Age column, which should follow it around.
+    sheet.getRange(2, 3, 999, 1).setNumberFormat("0");
+
+    const config = createQueryConfig(
+        "Users",
+        { ["ID"]: "string", ["Age"]: "number" },
+        { migrations: [migration(1, ...steps)] }
+    );
+    const environment = createFakeEnvironment(spreadsheet);
+    return { sheet, migrate: () => migrateSheet(config, environment) };
+};
+
+const formatAt = (sheet: ReturnType<typeof setup>["sheet"], column: number) =>
+    sheet.getRange(2, column, 1, 1).getNumberFormat();
+
+describe("migrateSheet", () => {
+    it("moves columns along with their formatting", () => {
+        const { sheet, migrate } = setup(
+            dropColumn("Nickname"),
+            reorderColumns("Age"),
+            addColumn("Active", "boolean", true, 1),
+            renameColumn("Age", "Years")
+        );
+
+        expect(migrate()).toEqual({
+            sheet: "Users",
+            from: 0,
+            to: 1,
+            applied: [1],
+        });
+        expect(sheet.dump()).toEqual([
+            ["Years", "Active", "ID"],
+            [30, true, "1"],
+            [25, true, "2"],
+        ]);
+        expect(formatAt(sheet, 1)).toBe("0");
+        expect(formatAt(sheet, 3)).not.toBe("0");
+    });
+
+    it("leaves the sheet as it was when a step fails", () => {
+        const { sheet, migrate } = setup(
+            dropColumn("Nickname"),
+            changeType("ID", "number"),
+            renameColumn("Missing", "Other")
+        );
+        const before = sheet.dump();
+
+        expect(migrate).toThrow(
+            expect.objectContaining({ code: "MIGRATION_FAILED" })
+        );
+        expect(sheet.dump()).toEqual(before);
+    });
+});
@@ -0,0 +1,351 @@
+import { CodingContext, decodeCell, encodeCell } from "./coerce";
+import { SheetQueryEnvironment } from "./environment";
+import { MigrationError } from "./errors";
+import { formatHeader, parseHeader } from "./header";
+import { locateSheet } from "./locate";
+import { SheetLike } from "./types/backend";
+import { AnySheetQueryConfig } from "./types/config";
+import { Migration, MigrationStep } from "./types/migration";
+import { ToActualType, TypeName } from "./types/utils";
+
+type Grid = unknown[][];
+
+export type MigrationReport = {
+    readonly sheet: string;
+    /**
+     * Version recorded before migrating; 0 when none was.
+     */
+    readonly from: number;
+    readonly to: number;
+    /**
+     * Versions applied, in order.
+     */
+    readonly applied: readonly number[];
+};
+
+/**
+ * Add a column, filling existing rows with `defaultValue`.
+ * @param position 0-based column index to insert at; the end when omitted.
+ */
+export const addColumn = <T extends TypeName>(
+    name: string,
+    type: T,
+    defaultValue: ToActualType<T>,
+    position?: number
+): MigrationStep => ({
+    kind: "add-column",
+    name,
+    type,
+    defaultValue,
+    position,
+});
+
+export const renameColumn = (from: string, to: string): MigrationStep => ({
+    kind: "rename-column",
+    from,
+    to,
+});
+
+/**
+ * Move the given columns to the front, in order. The others follow in their current order.
+ */
+export const reorderColumns = (...order: readonly string[]): MigrationStep => ({
+    kind: "reorder-columns",
+    order,
+});
+
+export const dropColumn = (name: string): MigrationStep => ({
+    kind: "drop-column",
+    name,
+});
+
+/**
+ * Convert the values of a column to another type. Fails if a value is not convertible.
+ */
+export const changeType = (name: string, type: TypeName): MigrationStep => ({
+    kind: "change-type",
+    name,
+    type,
+});
+
+/**
+ * Declare the steps bringing a sheet to `version`. Versions are applied in ascending order.
+ * @example
+ * const userQueryConfig = createQueryConfig(USER_SHEET_ID, { ... }, {
+ *     migrations: [
+ *         migration(1, addColumn("Is Employed", "boolean", false)),
+ *         migration(2, renameColumn("Age", "Years"), dropColumn("Nickname")),
+ *     ],
+ * });
+ */
+export const migration = (
+    version: number,
+    ...steps: readonly MigrationStep[]
+): Migration => ({ version, steps });
+
+/**
+ * Version a config brings its sheet to: that of its latest migration, or 0.
+ */
+export const schemaVersionOf = ({ migrations }: AnySheetQueryConfig) =>
+    (migrations as readonly Migration[]).reduce(
+        (acc, { version }) => Math.max(acc, version),
+        0
+    );
+
+const versionKeyOf = (
+    environment: SheetQueryEnvironment,
+    config: AnySheetQueryConfig,
+    sheet: SheetLike
+) =>
+    `spread-sheet-query.schema-version.${environment
+        .getSpreadsheet(config.spreadsheet)
+        .getId()}.${sheet.getSheetId()}`;
+
+/**
+ * Record that `sheet` already matches the latest migration of `config`,
+ * e.g. because it was just created from the config.
+ */
+export const markSchemaVersion = (
+    config: AnySheetQueryConfig,
+    sheet: SheetLike,
+    environment: SheetQueryEnvironment
+) => {
+    environment
+        .getProperties()
+        .setProperty(
+            versionKeyOf(environment, config, sheet),
+            String(schemaVersionOf(config))
+        );
+};
+
+/**
+ * Version `sheet` was last migrated to; 0 when none was recorded.
+ */
+export const recordedSchemaVersion = (
+    config: AnySheetQueryConfig,
+    sheet: SheetLike,
+    environment: SheetQueryEnvironment
+) =>
+    Number(
+        environment
+            .getProperties()
+            .getProperty(versionKeyOf(environment, config, sheet)) ?? 0
+    );
+
+const transpose = (grid: Grid, width: number): Grid =>
+    Array.from({ length: width }, (_, c) => grid.map((row) => row[c] ?? ""));
+
+const applyStep = (
+    columns: Grid,
+    step: MigrationStep,
+    context: CodingContext,
+    fail: (reason: string, cause?: unknown) => never
+): Grid => {
+    const annotated = columns.some(
+        ([h]) => parseHeader(String(h)).type !== undefined
+    );
+    const headerOf = (name: string, type: TypeName | undefined) =>
+        annotated && type !== undefined ? formatHeader(name, type) : name;
+    const indexOf = (name: string) => {
+        const index = columns.findIndex(
+            ([h]) => parseHeader(String(h)).name === name
+        );
+        if (index < 0) {
+            fail(`there's no column named "${name}"`);
+        }
+        return index;
+    };
+
+    switch (step.kind) {
+        case "add-column": {
+            const { name, type, defaultValue, position } = step;
+            if (columns.some(([h]) => parseHeader(String(h)).name === name)) {
+                fail(`column "${name}" already exists`);
+            }
+
+            const rows = (columns[0]?.length ?? 1) - 1;
+            const column = [
+                headerOf(name, type),
+                ...Array.from({ length: rows }, () =>
+                    encodeCell(defaultValue, type, context)
+                ),
+            ];
+            const at = position ?? columns.length;
+            return [...columns.slice(0, at), column, ...columns.slice(at)];
+        }
+        case "rename-column": {
+            const index = indexOf(step.from);
+            const [header, ...cells] = columns[index];
+            const { type } = parseHeader(String(header));
+            return columns.map((column, i) =>
+                i === index ? [headerOf(step.to, type), ...cells] : column
+            );
+        }
+        case "reorder-columns": {
+            const moved = step.order.map(indexOf);
+            return [
+                ...moved.map((i) => columns[i]),
+                ...columns.filter((_, i) => !moved.includes(i)),
+            ];
+        }
+        case "drop-column": {
+            const index = indexOf(step.name);
+            return columns.filter((_, i) => i !== index);
+        }
+        case "change-type": {
+            const { name, type } = step;
+            const index = indexOf(name);
+            const [, ...cells] = columns[index];
+
+            const converted = cells.map((cell, r) => {
+                if (cell === "") {
+                    return cell;
+                }
+                const decoded = decodeCell(cell as never, type, context);
+                if (decoded.isErr()) {
+                    fail(
+                        `row ${r + 2}: ${decoded.error.message}`,
+                        decoded.error
+                    );
+                }
+                return encodeCell(decoded.value, type, context);
+            });
+            return columns.map((column, i) =>
+                i === index ? [headerOf(name, type), ...converted] : column
+            );
+        }
+    }
+};
+
+const nameOf = (header: unknown) => parseHeader(String(header)).name;
+
+/**
+ * Make on the sheet the change `step` made from `before` to `after`, the columns as `applyStep` gets them.
+ * Columns are inserted, deleted and moved rather than rewritten,
+ * so their number formats and validation rules go along.
+ */
+const applyStepToSheet = (
+    sheet: SheetLike,
+    step: MigrationStep,
+    before: Grid,
+    after: Grid
+) => {
+    const height = (after[0] ?? before[0])?.length ?? 0;
+    const writeColumn = (index: number) => {
+        sheet
+            .getRange(1, index + 1, height, 1)
+            .setValues(after[index].map((cell) => [cell]));
+    };
+    const indexOf = (name: string) =>
+        before.findIndex(([h]) => nameOf(h) === name);
+
+    switch (step.kind) {
+        case "add-column": {
+            const at = step.position ?? before.length;
+            if (at < before.length) {
+                sheet.insertColumnBefore(at + 1);
+            } else {
+                sheet.insertColumnAfter(before.length);
+            }
+            writeColumn(at);
+            return;
+        }
+        case "rename-column": {
+            const index = indexOf(step.from);
+            sheet.getRange(1, index + 1, 1, 1).setValues([[after[index][0]]]);
+            return;
+        }
+        case "reorder-columns": {
+            const current = before.map(([h]) => nameOf(h));
+            step.order.forEach((name, k) => {
+                const index = current.indexOf(name);
+                if (index !== k) {
+                    sheet.moveColumns(
+                        sheet.getRange(1, index + 1, height, 1),
+                        k + 1
+                    );
+                    current.splice(index, 1);
+                    current.splice(k, 0, name);
+                }
+            });
+            return;
+        }
+        case "drop-column": {
+            sheet.deleteColumn(indexOf(step.name) + 1);
+            return;
+        }
+        case "change-type": {
+            writeColumn(indexOf(step.name));
+            return;
+        }
+    }
+};
+
+/**
+ * Apply the migrations of `config` its sheet has not seen yet, and record the new version.
+ * Every pending step is checked before the sheet is changed.
+ */
+export const migrateSheet = (
+    config: AnySheetQueryConfig,
+    environment: SheetQueryEnvironment
+): MigrationReport => {
+    const sheet = locateSheet(environment, config);
+    const properties = environment.getProperties();
+    const key = versionKeyOf(environment, config, sheet);
+
+    const from = recordedSchemaVersion(config, sheet, environment);
+    const pending = (config.migrations as readonly Migration[])
+        .filter(({ version }) => version > from)
+        .sort((a, b) => a.version - b.version);
+
+    if (pending.length === 0) {
+        return { sheet: sheet.getName(), from, to: from, applied: [] };
+    }
+
+    const context: CodingContext = { timeZone: environment.getTimeZone() };
+    const grid = sheet.getDataRange().getValues();
+
+    // The columns before and after each step, all computed before any is applied.
+    const changes = pending
+        .flatMap(({ version, steps }) =>
+            steps.map((step) => ({ version, step }))
+        )
+        .reduce<{ step: MigrationStep; before: Grid; after: Grid }[]>(
+            (acc, { version, step }) => {
+                const before =
+                    acc.length === 0
+                        ? transpose(grid, grid[0]?.length ?? 0)
+                        : acc[acc.length - 1].after;
+                const after = applyStep(
+                    before,
+                    step,
+                    context,
+                    (reason, cause) => {
+                        throw new MigrationError(
+                            sheet.getName(),
+                            version,
+                            step,
+                            reason,
+                            cause
+                        );
+                    }
+                );
+                return [...acc, { step, before, after }];
+            },
+            []
+        );
+
+    changes.forEach(({ step, before, after }) =>
+        applyStepToSheet(sheet, step, before, after)
+    );
+
+    const to = pending[pending.length - 1].version;
+    properties.setProperty(key, String(to));
+
+    return {
+        sheet: sheet.getName(),
+        from,
+        to,
+        applied: pending.map(({ version }) => version),
+    };
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { createQueryConfig } from "./config";
+import {
+    FakeSheetSeed,
+    createFakeEnvironment,
+    createFakeSpreadsheet,
+} from "./fake";
+import { provisionSheets } from "./index";
+
+const userConfig = createQueryConfig("Users", {
+    ["ID"]: "string",
+    ["Age"]: "number",
+    ["Active"]: "boolean",
+});
+
+const setup = (values?: FakeSheetSeed["values"]) => {
+    const spreadsheet = createFakeSpreadsheet(
+        values === undefined ? [] : [{ name: "Users", values }]
+    );
+    const environment = createFakeEnvironment(spreadsheet);
+    const users = () =>
+        spreadsheet.getSheets().find((s) => s.getName() === "Users")!;
+    return {
+        users,
+        provision: async () => {
+            const result = await provisionSheets([userConfig], {
+                environment,
+            });
+            return result.unwrapOr([]);
+        },
+    };
+};
+
+describe("provisionSheets", () => {
+    it("reports every change made to a sheet it created", async () => {
+        const { users, provision } = setup();
+
+        expect(await provision()).toEqual([
+            {
+                sheet: "Users",
+                changes: [
+                    { kind: "create-sheet", sheet: "Users" },
+                    {
+                        kind: "write-header",
+                        column: "ID",
+                        from: undefined,
+                        to: "ID <string>",
+                    },
+                    {
+                        kind: "write-header",
+                        column: "Age",
+                        from: undefined,
+                        to: "Age <number>",
+                    },
+                    {
+                        kind: "write-header",
+                        column: "Active",
+                        from: undefined,
+                        to: "Active <boolean>",
+                    },
+                    { kind: "freeze-header" },
+                    // Numbers already have the default format of a new sheet.
+                    { kind: "set-format", column: "ID", format: "@" },
+                    {
+                        kind: "set-validation",
+                        column: "Active",
+                        validation: "checkbox",
+                    },
+                ],
+            },
+        ]);
+        expect(users().dump()).toEqual([
+            ["ID <string>", "Age <number>", "Active <boolean>"],
+        ]);
+        expect(users().getFrozenRows()).toBe(1);
+    });
+
+    it("repairs the header of a sheet, leaving records and other columns", async () => {
+        const { users, provision } = setup([
+            ["Note", "Age", "ID <string>"],
+            ["hi", 30, "1"],
+        ]);
+
+        const [report] = await provision();
+
+        expect(
+            report.changes.filter(({ kind }) => kind === "write-header")
+        ).toEqual([
+            {
+                kind: "write-header",
+                column: "Age",
+                from: "Age",
+                to: "Age <number>",
+            },
+            {
+                kind: "write-header",
+                column: "Active",
+                from: undefined,
+                to: "Active <boolean>",
+            },
+        ]);
+        expect(users().dump()).toEqual([
+            ["Note", "Age <number>", "ID <string>", "Active <boolean>"],
+            ["hi", 30, "1", ""],
+        ]);
+    });
+
+    it("reports no change once the sheet matches the config", async () => {
+        const { provision } = setup();
+        await provision();
+
+        expect(await provision()).toEqual([{ sheet: "Users", changes: [] }]);
+    });
+});
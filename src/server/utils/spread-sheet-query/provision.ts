@@ -0,0 +1,213 @@
+import { readCacheOf } from "./cache";
+import { typeOf } from "./columns";
+import { SheetQueryEnvironment, ValidationKind } from "./environment";
+import { SheetNotFoundError } from "./errors";
+import { HEADER_ROWS, formatHeader, parseHeader } from "./header";
+import { locateSheet } from "./locate";
+import { markSchemaVersion } from "./migrations";
+import { SheetLike } from "./types/backend";
+import { AnySheetQueryConfig, ColumnTypes } from "./types/config";
+import { TypeName } from "./types/utils";
+
+/**
+ * Something `provisionSheet` changed on a sheet.
+ */
+export type ProvisionChange =
+    | { readonly kind: "create-sheet"; readonly sheet: string }
+    | {
+          readonly kind: "write-header";
+          readonly column: string;
+          /**
+           * Previous header cell, or `undefined` when the column was added.
+           */
+          readonly from: string | undefined;
+          readonly to: string;
+      }
+    | { readonly kind: "freeze-header" }
+    | {
+          readonly kind: "set-format";
+          readonly column: string;
+          readonly format: string;
+      }
+    | {
+          readonly kind: "set-validation";
+          readonly column: string;
+          readonly validation: ValidationKind;
+      };
+
+export type ProvisionReport = {
+    readonly sheet: string;
+    /**
+     * Empty when the sheet already matched the config.
+     */
+    readonly changes: readonly ProvisionChange[];
+};
+
+// Plain text keeps strings such as "0123" and big integers from being read as numbers.
+const NUMBER_FORMATS: { readonly [key in TypeName]?: string } = {
+    string: "@",
+    number: "0.###############",
+    bigint: "@",
+    Date: "yyyy-mm-dd hh:mm:ss",
+};
+
+const VALIDATIONS: { readonly [key in TypeName]?: ValidationKind } = {
+    boolean: "checkbox",
+    Date: "date",
+};
+
+const VALIDATION_CRITERIA: { readonly [key in ValidationKind]: string } = {
+    checkbox: "CHECKBOX",
+    date: "DATE_IS_VALID_DATE",
+};
+
+const openOrCreateSheet = (
+    config: AnySheetQueryConfig,
+    environment: SheetQueryEnvironment
+): { sheet: SheetLike; created: boolean } => {
+    try {
+        return { sheet: locateSheet(environment, config), created: false };
+    } catch (error) {
+        // A sheet id cannot be chosen, so only sheets addressed by name are created.
+        if (
+            !(error instanceof SheetNotFoundError) ||
+            error.cause !== undefined ||
+            typeof config.sheet !== "string"
+        ) {
+            throw error;
+        }
+
+        const sheet = environment
+            .getSpreadsheet(config.spreadsheet)
+            .insertSheet(config.sheet);
+        return { sheet, created: true };
+    }
+};
+
+/**
+ * Write the header of every declared column, annotated with its type.
+ * Columns already on the sheet keep their position; missing ones are added at the end.
+ */
+const provisionHeader = (
+    sheet: SheetLike,
+    columnTypes: ColumnTypes
+): ProvisionChange[] => {
+    const [row] = sheet.getDataRange().getValues();
+    const headers: string[] = row.map(String);
+    // A blank sheet still has a single empty cell as its data range.
+    const current = headers.length === 1 && headers[0] === "" ? [] : headers;
+
+    const changes = Object.entries(columnTypes).flatMap(
+        ([name, definition]): ProvisionChange[] => {
+            const type = typeOf(definition);
+            const index = current.findIndex(
+                (h) => parseHeader(h).name === name
+            );
+            const header = formatHeader(name, type);
+
+            if (index < 0) {
+                current.push(header);
+                return [
+                    {
+                        kind: "write-header",
+                        column: name,
+                        from: undefined,
+                        to: header,
+                    },
+                ];
+            }
+            if (current[index] !== header) {
+                const from = current[index];
+                current[index] = header;
+                return [
+                    { kind: "write-header", column: name, from, to: header },
+                ];
+            }
+            return [];
+        }
+    );
+
+    if (changes.length > 0) {
+        sheet.getRange(1, 1, 1, current.length).setValues([current]);
+    }
+    return changes;
+};
+
+const provisionColumns = (
+    sheet: SheetLike,
+    columnTypes: ColumnTypes,
+    environment: SheetQueryEnvironment
+): ProvisionChange[] => {
+    const [row] = sheet.getDataRange().getValues();
+    const rows = sheet.getMaxRows() - HEADER_ROWS;
+    if (rows < 1) {
+        return [];
+    }
+
+    return row.flatMap((header, i): ProvisionChange[] => {
+        const { name } = parseHeader(String(header));
+        if (columnTypes[name] === undefined) {
+            return [];
+        }
+        const type = typeOf(columnTypes[name]);
+
+        const range = sheet.getRange(HEADER_ROWS + 1, i + 1, rows, 1);
+        const changes: ProvisionChange[] = [];
+
+        const format = NUMBER_FORMATS[type];
+        if (format !== undefined && range.getNumberFormat() !== format) {
+            range.setNumberFormat(format);
+            changes.push({ kind: "set-format", column: name, format });
+        }
+
+        const validation = VALIDATIONS[type];
+        const criteria = range.getDataValidation()?.getCriteriaType();
+        if (
+            validation !== undefined &&
+            String(criteria) !== VALIDATION_CRITERIA[validation]
+        ) {
+            range.setDataValidation(environment.createValidation(validation));
+            changes.push({ kind: "set-validation", column: name, validation });
+        }
+
+        return changes;
+    });
+};
+
+/**
+ * Create or repair the sheet of `config` so it matches the config:
+ * a frozen header row naming each column with its type, and number formats
+ * and validation rules fitting the type of each column.
+ * Records are left untouched, and so are columns the config does not declare.
+ */
+export const provisionSheet = (
+    config: AnySheetQueryConfig,
+    environment: SheetQueryEnvironment
+): ProvisionReport => {
+    const { sheet, created } = openOrCreateSheet(config, environment);
+    const columnTypes: ColumnTypes = config.columnTypes;
+
+    const changes: ProvisionChange[] = [
+        ...(created
+            ? [{ kind: "create-sheet", sheet: sheet.getName() } as const]
+            : []),
+        ...provisionHeader(sheet, columnTypes),
+    ];
+
+    if (sheet.getFrozenRows() !== HEADER_ROWS) {
+        sheet.setFrozenRows(HEADER_ROWS);
+        changes.push({ kind: "freeze-header" });
+    }
+
+    changes.push(...provisionColumns(sheet, columnTypes, environment));
+
+    // A sheet created from the config is already at its latest schema version.
+    if (created) {
+        markSchemaVersion(config, sheet, environment);
+    }
+    if (changes.some(({ kind }) => kind === "write-header")) {
+        readCacheOf(config, sheet, environment)?.invalidate();
+    }
+
+    return { sheet: sheet.getName(), changes };
+};
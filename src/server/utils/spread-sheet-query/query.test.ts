@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { createQueryBuilder } from "./query";
+
+type Item = {
+    ["Name"]: string;
+    ["Price"]: number | null;
+    ["Code"]?: string | null;
+};
+
+const ITEMS: Item[] = [
+    { ["Name"]: "Pen", ["Price"]: 120, ["Code"]: "nib-01" },
+    { ["Name"]: "Ink", ["Price"]: null, ["Code"]: null },
+    { ["Name"]: "Pad", ["Price"]: 300 },
+];
+
+const namesOf = (items: readonly Item[]) => items.map((i) => i["Name"]);
+
+describe("createQueryBuilder", () => {
+    it("matches no empty cell with an ordering operator", () => {
+        const query = createQueryBuilder(() => ITEMS);
+
+        expect(namesOf(query.where("Price", ">", 200).get())).toEqual(["Pad"]);
+        expect(namesOf(query.where("Price", ">=", 120).get())).toEqual([
+            "Pen",
+            "Pad",
+        ]);
+        expect(namesOf(query.where("Price", "<", 200).get())).toEqual(["Pen"]);
+        expect(namesOf(query.where("Price", "<=", 300).get())).toEqual([
+            "Pen",
+            "Pad",
+        ]);
+    });
+
+    it("matches no empty cell with a string operator", () => {
+        const query = createQueryBuilder(() => ITEMS);
+
+        expect(namesOf(query.where("Code", "contains", "n").get())).toEqual([
+            "Pen",
+        ]);
+        expect(namesOf(query.where("Code", "startsWith", "n").get())).toEqual([
+            "Pen",
+        ]);
+        expect(namesOf(query.where("Code", "startsWith", "u").get())).toEqual(
+            []
+        );
+        expect(namesOf(query.where("Code", "endsWith", "l").get())).toEqual([]);
+    });
+
+    it("sorts empty cells last either way", () => {
+        const query = createQueryBuilder(() => ITEMS);
+
+        expect(namesOf(query.orderBy("Price", "asc").get())).toEqual([
+            "Pen",
+            "Pad",
+            "Ink",
+        ]);
+        expect(namesOf(query.orderBy("Price", "desc").get())).toEqual([
+            "Pad",
+            "Pen",
+            "Ink",
+        ]);
+    });
+});
+
+describe("groupBy", () => {
+    it("aggregates every group in the order its first record comes in", () => {
+        const query = createQueryBuilder(() => [
+            ...ITEMS,
+            { ["Name"]: "Pen", ["Price"]: 80 },
+        ]);
+
+        expect(
+            query.groupBy("Name").aggregate(({ count, sum }) => ({
+                n: count(),
+                total: sum("Price"),
+            }))
+        ).toEqual([
+            { ["Name"]: "Pen", n: 2, total: 200 },
+            { ["Name"]: "Ink", n: 1, total: 0 },
+            { ["Name"]: "Pad", n: 1, total: 300 },
+        ]);
+    });
+});
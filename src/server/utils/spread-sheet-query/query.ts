@@ -0,0 +1,437 @@
+type Ordered = number | string | bigint | Date;
+
+type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=";
+type MembershipOperator = "in" | "not in";
+type StringOperator = "contains" | "startsWith" | "endsWith";
+
+/**
+ * Operators usable on a column holding values of type `V`.
+ */
+export type WhereOperator<V> =
+    | MembershipOperator
+    | (V extends string
+          ? ComparisonOperator | StringOperator
+          : V extends Ordered
+          ? ComparisonOperator
+          : "==" | "!=");
+
+/**
+ * Right-hand side of `where` for the operator `Op` on a column of type `V`.
+ */
+export type WhereOperand<V, Op> = Op extends MembershipOperator
+    ? readonly V[]
+    : Op extends StringOperator
+    ? string
+    : V;
+
+export type OrderDirection = "asc" | "desc";
+
+/**
+ * Columns of `R` holding numbers, possibly left empty.
+ */
+type NumberColumn<R> = {
+    [K in keyof R]-?: NonNullable<R[K]> extends number ? K : never;
+}[keyof R];
+
+/**
+ * Columns of `R` whose values can be compared and returned through `apiHandler`.
+ */
+type OrderedColumn<R> = {
+    [K in keyof R]-?: NonNullable<R[K]> extends number | string | Date
+        ? K
+        : never;
+}[keyof R];
+
+/**
+ * Columns of `R` records can be grouped by.
+ */
+type GroupColumn<R> = {
+    [K in keyof R]-?: NonNullable<R[K]> extends
+        | number
+        | string
+        | boolean
+        | Date
+        ? K
+        : never;
+}[keyof R];
+
+/**
+ * Computes a value of type `V` from a group of records.
+ */
+export type Aggregate<R, V> = (records: readonly R[]) => V;
+
+/**
+ * Aggregates offered to `aggregate`. Empty cells are left out of every aggregate but `count`.
+ */
+export type Aggregators<R> = {
+    /**
+     * Number of records.
+     */
+    count(): Aggregate<R, number>;
+    /**
+     * Total of a number column; 0 when every cell is empty.
+     */
+    sum(column: NumberColumn<R>): Aggregate<R, number>;
+    /**
+     * Mean of a number column; `null` when every cell is empty.
+     */
+    avg(column: NumberColumn<R>): Aggregate<R, number | null>;
+    /**
+     * Smallest value of a column; `null` when every cell is empty.
+     */
+    min<K extends OrderedColumn<R>>(
+        column: K
+    ): Aggregate<R, NonNullable<R[K]> | null>;
+    /**
+     * Largest value of a column; `null` when every cell is empty.
+     */
+    max<K extends OrderedColumn<R>>(
+        column: K
+    ): Aggregate<R, NonNullable<R[K]> | null>;
+};
+
+type AggregateSpec<R> = { readonly [name: string]: Aggregate<R, unknown> };
+
+type AggregateResult<Spec> = {
+    [name in keyof Spec]: Spec[name] extends Aggregate<never, infer V>
+        ? V
+        : never;
+};
+
+/**
+ * A group of records: its values of the group columns, and its aggregates.
+ */
+type GroupRow<R, K extends keyof R, Spec> = {
+    [column in K]: R[column];
+} & AggregateResult<Spec>;
+
+export type GroupedQuery<R extends object, K extends keyof R> = {
+    /**
+     * Compute aggregates for every group.
+     * @param build Returns the aggregates by the name they are returned under.
+     * @returns One object per group, holding the group columns and the aggregates,
+     *          with groups in the order their first record comes in.
+     */
+    aggregate<Spec extends AggregateSpec<R>>(
+        build: (aggregators: Aggregators<R>) => Spec
+    ): GroupRow<R, K, Spec>[];
+};
+
+export type SheetQueryBuilder<R extends object, Selected = R> = {
+    /**
+     * Keep records whose `column` satisfies the comparison. Calls are combined with AND.
+     * @param column Column to compare.
+     * @param operator Comparison operator; ordering operators are only offered for ordered types
+     *                 and never match an empty cell.
+     * @param value Value to compare with, or a list of values for `in` and `not in`.
+     */
+    where<K extends keyof R, Op extends WhereOperator<R[K]>>(
+        column: K,
+        operator: Op,
+        value: WhereOperand<R[K], Op>
+    ): SheetQueryBuilder<R, Selected>;
+
+    /**
+     * Sort by `column`. Later calls break ties left by earlier ones.
+     * @param column Column to sort by.
+     * @param direction `"asc"` (default) or `"desc"`; empty cells come last either way.
+     */
+    orderBy<K extends keyof R>(
+        column: K,
+        direction?: OrderDirection
+    ): SheetQueryBuilder<R, Selected>;
+
+    /**
+     * Return at most `count` records.
+     */
+    limit(count: number): SheetQueryBuilder<R, Selected>;
+
+    /**
+     * Skip the first `count` records.
+     */
+    offset(count: number): SheetQueryBuilder<R, Selected>;
+
+    /**
+     * Narrow the resulting records to the given columns.
+     */
+    select<K extends keyof R>(
+        ...columns: readonly K[]
+    ): SheetQueryBuilder<R, Pick<R, K>>;
+
+    /**
+     * Run the query.
+     * @returns Records matching the query, in order.
+     */
+    get(): Selected[];
+
+    /**
+     * Run the query.
+     * @returns The first matching record, or `undefined` if nothing matched.
+     */
+    first(): Selected | undefined;
+
+    /**
+     * Run the query, ignoring `limit`, `offset` and `select`.
+     * @returns The number of matching records.
+     */
+    count(): number;
+
+    /**
+     * Group the matching records by the values of `columns`, to be aggregated.
+     * Like `count`, grouping ignores `limit`, `offset` and `select`.
+     * @example
+     * group.query()
+     *     .where("Is Employed", "==", true)
+     *     .groupBy("Group ID")
+     *     .aggregate(({ count, avg }) => ({
+     *         employed: count(),
+     *         averageAge: avg("Age"),
+     *     }));
+     */
+    groupBy<K extends GroupColumn<R>>(
+        ...columns: readonly K[]
+    ): GroupedQuery<R, K>;
+
+    /**
+     * Compute aggregates over every matching record, ignoring `limit`, `offset` and `select`.
+     * @param build Returns the aggregates by the name they are returned under.
+     * @example
+     * group.query().aggregate(({ avg, max }) => ({
+     *     average: avg("Ave. Grades"),
+     *     best: max("Ave. Grades"),
+     * }));
+     */
+    aggregate<Spec extends AggregateSpec<R>>(
+        build: (aggregators: Aggregators<R>) => Spec
+    ): AggregateResult<Spec>;
+};
+
+type QueryState<R> = {
+    readonly filters: readonly ((record: R) => boolean)[];
+    readonly orders: readonly {
+        readonly column: keyof R;
+        readonly direction: OrderDirection;
+    }[];
+    readonly skip: number;
+    readonly take: number | undefined;
+    readonly columns: readonly (keyof R)[] | undefined;
+};
+
+const toComparable = (v: unknown) => (v instanceof Date ? v.getTime() : v);
+
+const isEqual = (a: unknown, b: unknown) =>
+    toComparable(a) === toComparable(b);
+
+const isEmpty = (v: unknown) => v === undefined || v === null || v === "";
+
+// Missing values sort after everything else, in either direction.
+const compare = (a: unknown, b: unknown, sign: 1 | -1 = 1) => {
+    const x = toComparable(a);
+    const y = toComparable(b);
+    if (x === y) return 0;
+    if (isEmpty(x)) return 1;
+    if (isEmpty(y)) return -1;
+    return (x as Ordered | boolean) < (y as Ordered | boolean) ? -sign : sign;
+};
+
+// Empty cells match no range, wherever sorting puts them.
+const isOrdered = (a: unknown, b: unknown, test: (c: number) => boolean) =>
+    !isEmpty(a) && !isEmpty(b) && test(compare(a, b));
+
+// Empty cells hold no text either, rather than reading as "undefined" or "null".
+const isText = (v: unknown, test: (s: string) => boolean) =>
+    !isEmpty(v) && test(String(v));
+
+const createPredicate =
+    (operator: string, operand: unknown) =>
+    (v: unknown): boolean => {
+        switch (operator) {
+            case "==":
+                return isEqual(v, operand);
+            case "!=":
+                return !isEqual(v, operand);
+            case "<":
+                return isOrdered(v, operand, (c) => c < 0);
+            case "<=":
+                return isOrdered(v, operand, (c) => c <= 0);
+            case ">":
+                return isOrdered(v, operand, (c) => c > 0);
+            case ">=":
+                return isOrdered(v, operand, (c) => c >= 0);
+            case "in":
+                return (operand as readonly unknown[]).some((o) =>
+                    isEqual(v, o)
+                );
+            case "not in":
+                return !(operand as readonly unknown[]).some((o) =>
+                    isEqual(v, o)
+                );
+            case "contains":
+                return isText(v, (s) => s.includes(operand as string));
+            case "startsWith":
+                return isText(v, (s) => s.startsWith(operand as string));
+            case "endsWith":
+                return isText(v, (s) => s.endsWith(operand as string));
+            default:
+                throw new Error(`Unknown operator: "${operator}"`);
+        }
+    };
+
+const aggregatorsOf = <R extends object>(): Aggregators<R> => {
+    const valuesOf = <V>(records: readonly R[], column: keyof R) =>
+        records.map((r) => r[column]).filter((v) => !isEmpty(v)) as V[];
+    const extremeOf =
+        (sign: 1 | -1) =>
+        <K extends keyof R>(column: K) =>
+        (records: readonly R[]) =>
+            valuesOf<NonNullable<R[K]>>(records, column).reduce<NonNullable<
+                R[K]
+            > | null>(
+                (acc, v) =>
+                    acc === null || compare(v, acc) * sign > 0 ? v : acc,
+                null
+            );
+
+    return {
+        count: () => (records) => records.length,
+        sum: (column) => (records) =>
+            valuesOf<number>(records, column).reduce((acc, v) => acc + v, 0),
+        avg: (column) => (records) => {
+            const values = valuesOf<number>(records, column);
+            return values.length === 0
+                ? null
+                : values.reduce((acc, v) => acc + v, 0) / values.length;
+        },
+        min: extremeOf(-1),
+        max: extremeOf(1),
+    };
+};
+
+const aggregateOf = <R extends object, Spec extends AggregateSpec<R>>(
+    records: readonly R[],
+    spec: Spec
+) =>
+    Object.entries(spec).reduce(
+        (acc, [name, aggregate]) => ({ ...acc, [name]: aggregate(records) }),
+        {} as AggregateResult<Spec>
+    );
+
+const groupRecords = <R extends object>(
+    records: readonly R[],
+    columns: readonly (keyof R)[]
+) =>
+    records.reduce((groups, r) => {
+        const key = JSON.stringify(columns.map((c) => toComparable(r[c])));
+        const group = groups.get(key);
+        if (group === undefined) {
+            groups.set(key, [r]);
+        } else {
+            group.push(r);
+        }
+        return groups;
+    }, new Map<string, R[]>());
+
+const project = <R extends object>(
+    record: R,
+    columns: readonly (keyof R)[]
+) =>
+    columns.reduce((acc, c) => {
+        return { ...acc, [c]: record[c] };
+    }, {} as Partial<R>);
+
+const run = <R extends object>(source: readonly R[], state: QueryState<R>) => {
+    const { filters, orders, skip, take, columns } = state;
+
+    const matched = source.filter((r) => filters.every((f) => f(r)));
+
+    // Array.prototype.sort is stable, so the sheet order remains between ties.
+    const sorted =
+        orders.length === 0
+            ? matched
+            : matched.slice().sort((a, b) => {
+                  for (const { column, direction } of orders) {
+                      const c = compare(
+                          a[column],
+                          b[column],
+                          direction === "asc" ? 1 : -1
+                      );
+                      if (c !== 0) return c;
+                  }
+                  return 0;
+              });
+
+    const sliced = sorted.slice(
+        skip,
+        take === undefined ? undefined : skip + take
+    );
+
+    return columns === undefined
+        ? sliced
+        : sliced.map((r) => project(r, columns));
+};
+
+const builderOf = <R extends object, Selected>(
+    source: () => readonly R[],
+    state: QueryState<R>
+): SheetQueryBuilder<R, Selected> => {
+    const next = <S = Selected>(patch: Partial<QueryState<R>>) =>
+        builderOf<R, S>(source, { ...state, ...patch });
+    const matching = () =>
+        run(source(), {
+            ...state,
+            skip: 0,
+            take: undefined,
+            columns: undefined,
+        }) as R[];
+
+    return {
+        where: (column, operator, value) => {
+            const predicate = createPredicate(operator, value);
+            return next({
+                filters: [...state.filters, (r) => predicate(r[column])],
+            });
+        },
+        orderBy: (column, direction = "asc") =>
+            next({ orders: [...state.orders, { column, direction }] }),
+        limit: (count) => next({ take: count }),
+        offset: (count) => next({ skip: count }),
+        select: <K extends keyof R>(...columns: readonly K[]) =>
+            next<Pick<R, K>>({ columns }),
+        get: () => run(source(), state) as Selected[],
+        first: () => run(source(), { ...state, take: 1 })[0] as Selected,
+        count: () => matching().length,
+        groupBy: <K extends GroupColumn<R>>(...columns: readonly K[]) => ({
+            aggregate: <Spec extends AggregateSpec<R>>(
+                build: (aggregators: Aggregators<R>) => Spec
+            ) => {
+                const spec = build(aggregatorsOf<R>());
+                return Array.from(
+                    groupRecords(matching(), columns).values()
+                ).map(
+                    (records) =>
+                        ({
+                            ...project(records[0], columns),
+                            ...aggregateOf(records, spec),
+                        }) as GroupRow<R, K, Spec>
+                );
+            },
+        }),
+        aggregate: (build) =>
+            aggregateOf(matching(), build(aggregatorsOf<R>())),
+    };
+};
+
+/**
+ * Create a query builder over the records returned by `source`.
+ * `source` is called each time the query runs, so results follow later changes.
+ */
+export const createQueryBuilder = <R extends object>(
+    source: () => readonly R[]
+): SheetQueryBuilder<R> =>
+    builderOf<R, R>(source, {
+        filters: [],
+        orders: [],
+        skip: 0,
+        take: undefined,
+        columns: undefined,
+    });
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { createQueryConfig } from "./config";
+import { createFakeEnvironment, createFakeSpreadsheet } from "./fake";
+import { createSheetQuery, useSheetQuery } from "./index";
+import { belongsTo } from "./relations";
+
+const groupConfig = createQueryConfig(
+    "Groups",
+    { ["Group ID"]: "string", ["Name"]: "string" },
+    { primaryKey: "Group ID" }
+);
+
+const userConfig = createQueryConfig(
+    "Users",
+    { ["ID"]: "string", ["Name"]: "string", ["Group ID"]: "string" },
+    {
+        primaryKey: "ID",
+        relations: {
+            group: belongsTo(groupConfig, "Group ID", { enforce: true }),
+            // The group of the same name as the user, matched by a column other than the key.
+            namesake: belongsTo(groupConfig, "Name", { references: "Name" }),
+        },
+    }
+);
+
+const setup = () => {
+    const spreadsheet = createFakeSpreadsheet([
+        {
+            name: "Users",
+            values: [
+                ["ID", "Name", "Group ID"],
+                ["1", "Alice", "g1"],
+                ["2", "Admins", "g2"],
+                ["3", "Carol", ""],
+            ],
+        },
+        {
+            name: "Groups",
+            values: [
+                ["Group ID", "Name"],
+                ["g1", "Staff"],
+                ["g2", "Admins"],
+            ],
+        },
+    ]);
+    const environment = createFakeEnvironment(spreadsheet);
+    const [users] = spreadsheet.getSheets();
+    return { environment, users };
+};
+
+describe("include", () => {
+    it("attaches the records referred to, undefined where there is none", () => {
+        const { environment } = setup();
+        const users = createSheetQuery(userConfig, environment);
+
+        expect(
+            users.include("group", "namesake").map((u) => ({
+                name: u["Name"],
+                group: u.group?.["Name"],
+                namesake: u.namesake?.["Group ID"],
+            }))
+        ).toEqual([
+            { name: "Alice", group: "Staff", namesake: undefined },
+            { name: "Admins", group: "Admins", namesake: "g2" },
+            { name: "Carol", group: undefined, namesake: undefined },
+        ]);
+    });
+
+    it("sees changes of the target not committed yet", async () => {
+        const { environment } = setup();
+
+        const result = await useSheetQuery(
+            ([users, groups]) => {
+                groups.update("g1", { ["Name"]: "Everyone" });
+                return users.include("group")[0].group;
+            },
+            [userConfig, groupConfig] as const,
+            { environment }
+        );
+
+        expect(result.isOk() && result.value).toEqual({
+            ["Group ID"]: "g1",
+            ["Name"]: "Everyone",
+        });
+    });
+
+    it("throws on a relation the config does not declare", () => {
+        const { environment } = setup();
+        const users = createSheetQuery(userConfig, environment);
+
+        expect(() => users.include("team" as never)).toThrow(
+            expect.objectContaining({ code: "INVALID_CONFIG" })
+        );
+    });
+});
+
+describe("belongsTo", () => {
+    it("rejects a commit referring to a missing record when enforced", () => {
+        const { environment, users: sheet } = setup();
+        const users = createSheetQuery(userConfig, environment);
+        const before = sheet.dump();
+
+        users.update("3", { ["Group ID"]: "g9" });
+
+        expect(() => users.commit()).toThrow(
+            expect.objectContaining({
+                code: "RELATION_INTEGRITY",
+                details: {
+                    sheet: "Users",
+                    relation: "group",
+                    foreignKey: "Group ID",
+                    missing: ["g9"],
+                },
+            })
+        );
+        expect(sheet.dump()).toEqual(before);
+    });
+});
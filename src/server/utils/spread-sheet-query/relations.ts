@@ -0,0 +1,32 @@
+import { AnySheetQueryConfig, Relation } from "./types/config";
+
+/**
+ * Declare that records refer to a record of `target` through the `foreignKey` column.
+ * @param target Config of the sheet referred to.
+ * @param foreignKey Column of this sheet holding the reference.
+ * @param options.references Column of `target` matched against; its primary key when omitted.
+ * @param options.enforce Reject commits leaving records that point at a missing target record.
+ * @example
+ * const userQueryConfig = createQueryConfig(USER_SHEET_ID, { ... }, {
+ *     primaryKey: "User ID",
+ *     relations: { group: belongsTo(groupQueryConfig, "Group ID", { enforce: true }) },
+ * });
+ */
+export const belongsTo = <
+    Target extends AnySheetQueryConfig,
+    const ForeignKey extends PropertyKey
+>(
+    target: Target,
+    foreignKey: ForeignKey,
+    options?: {
+        references?: keyof Target["columnTypes"];
+        enforce?: boolean;
+    }
+): Relation<Target, ForeignKey> => {
+    return {
+        target,
+        foreignKey,
+        references: options?.references,
+        enforce: options?.enforce ?? false,
+    };
+};
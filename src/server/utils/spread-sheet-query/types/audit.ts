@@ -0,0 +1,55 @@
+import { SheetQueryEnvironment } from "../environment";
+
+export type AuditOperation = "insert" | "update" | "delete";
+
+/**
+ * A record changed by a commit.
+ */
+export type AuditEntry = {
+    readonly timestamp: Date;
+    /**
+     * Email of the user running the script; empty when Apps Script does not disclose it.
+     */
+    readonly user: string;
+    readonly sheet: string;
+    /**
+     * Primary key of the record, serialised as by `serializeKey`;
+     * `null` for sheets without a primary key.
+     */
+    readonly key: string | null;
+    readonly operation: AuditOperation;
+    /**
+     * The record before the commit, or `null` when it was inserted.
+     * Values are as stored by the sink; the built-in sheet sink keeps dates as ISO strings.
+     */
+    readonly before: { readonly [column: string]: unknown } | null;
+    /**
+     * The record after the commit, or `null` when it was deleted.
+     */
+    readonly after: { readonly [column: string]: unknown } | null;
+};
+
+/**
+ * Where audit entries go, declared as `audit` on a config.
+ */
+export type AuditSink = {
+    /**
+     * Store the entries of a commit. Called once the commit succeeded,
+     * after every sheet of an atomic `useSheetQuery` was written.
+     */
+    write(
+        entries: readonly AuditEntry[],
+        environment: SheetQueryEnvironment
+    ): void;
+
+    /**
+     * Entries of a record, oldest first.
+     * @param sheet Name of the sheet of the record.
+     * @param key Key of the record, serialised as in `AuditEntry`.
+     */
+    history(
+        sheet: string,
+        key: string,
+        environment: SheetQueryEnvironment
+    ): AuditEntry[];
+};
@@ -0,0 +1,103 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * The subset of `GoogleAppsScript.Spreadsheet.Range` used by the query layer.
+ */
+export type RangeLike = {
+    getValues(): any[][];
+    setValues(values: any[][]): RangeLike;
+    clearContent(): RangeLike;
+    /**
+     * Number format of the top-left cell.
+     */
+    getNumberFormat(): string;
+    setNumberFormat(numberFormat: string): RangeLike;
+    /**
+     * Validation rule of the top-left cell.
+     */
+    getDataValidation(): DataValidationLike | null;
+    setDataValidation(rule: DataValidationLike | null): RangeLike;
+    getColumn(): number;
+    getNumColumns(): number;
+};
+
+/**
+ * The subset of `GoogleAppsScript.Spreadsheet.DataValidation` used by the query layer.
+ */
+export type DataValidationLike = {
+    getCriteriaType(): unknown;
+};
+
+/**
+ * The subset of `GoogleAppsScript.Spreadsheet.Sheet` used by the query layer.
+ */
+export type SheetLike = {
+    getSheetId(): number;
+    getName(): string;
+    getDataRange(): RangeLike;
+    getRange(
+        row: number,
+        column: number,
+        numRows: number,
+        numColumns: number
+    ): RangeLike;
+    deleteRows(rowPosition: number, howMany: number): void;
+    insertRowsAfter(afterPosition: number, howMany: number): void;
+    insertColumnBefore(beforePosition: number): void;
+    insertColumnAfter(afterPosition: number): void;
+    deleteColumn(columnPosition: number): void;
+    /**
+     * Move the columns `columnSpec` spans to before `destinationIndex`,
+     * a position counted before the move.
+     */
+    moveColumns(columnSpec: RangeLike, destinationIndex: number): void;
+    /**
+     * Position of the last row holding content; 0 for an empty sheet.
+     */
+    getLastRow(): number;
+    /**
+     * Position of the last column holding content; 0 for an empty sheet.
+     */
+    getLastColumn(): number;
+    getMaxRows(): number;
+    getFrozenRows(): number;
+    setFrozenRows(rows: number): void;
+};
+
+/**
+ * The subset of `GoogleAppsScript.Spreadsheet.Spreadsheet` used by the query layer.
+ */
+export type SpreadsheetLike = {
+    getId(): string;
+    getSheets(): SheetLike[];
+    insertSheet(sheetName: string): SheetLike;
+};
+
+/**
+ * The subset of `GoogleAppsScript.Properties.Properties` used by the query layer.
+ */
+export type PropertiesLike = {
+    getProperty(key: string): string | null;
+    setProperty(key: string, value: string): PropertiesLike;
+};
+
+/**
+ * The subset of `GoogleAppsScript.Cache.Cache` used by the query layer.
+ */
+export type CacheLike = {
+    get(key: string): string | null;
+    getAll(keys: string[]): { [key: string]: string };
+    putAll(
+        values: { [key: string]: string },
+        expirationInSeconds: number
+    ): void;
+    remove(key: string): void;
+};
+
+/**
+ * The subset of `GoogleAppsScript.Lock.Lock` used by the query layer.
+ */
+export type LockLike = {
+    tryLock(timeoutInMillis: number): boolean;
+    releaseLock(): void;
+};
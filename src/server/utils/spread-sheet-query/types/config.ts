@@ -0,0 +1,212 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { AuditSink } from "./audit";
+import { Migration } from "./migration";
+import { ToActualType, TypeName } from "./utils";
+
+/**
+ * Conversion between values of type `V` and the cells of a column holding `T`.
+ * Both directions throw when the value is not valid.
+ */
+export type Codec<V = any, T extends TypeName = TypeName> = {
+    readonly kind: "codec";
+    /**
+     * What the column holds, as shown in error messages.
+     */
+    readonly name: string;
+    /**
+     * Type of the cells, used for header annotations, formats and validation rules.
+     */
+    readonly type: T;
+    readonly decode: (value: ToActualType<T>) => V;
+    readonly encode: (value: V) => ToActualType<T>;
+};
+
+/**
+ * A column declared with `column`, which may be left empty.
+ */
+export type ColumnSpec<
+    T extends TypeName = TypeName,
+    Optional extends boolean = boolean,
+    Nullable extends boolean = boolean,
+    Default = unknown,
+    C extends Codec | undefined = Codec | undefined
+> = {
+    readonly type: T;
+    /**
+     * Codec the cells go through, or `undefined` for a plain value of `type`.
+     */
+    readonly codec: C;
+    /**
+     * Empty cells read as `undefined`.
+     */
+    readonly optional: Optional;
+    /**
+     * Empty cells read as `null`.
+     */
+    readonly nullable: Nullable;
+    /**
+     * Value empty cells read as, and missing values are inserted as; `undefined` when none.
+     */
+    readonly default: Default;
+};
+
+/**
+ * Type of a column, either bare, through a codec, or with `column` for empty cells to be allowed.
+ */
+export type ColumnDefinition = TypeName | Codec | ColumnSpec;
+
+export type ColumnTypes = { readonly [key: string]: ColumnDefinition };
+
+/**
+ * Value of a column as read from the sheet.
+ */
+export type ColumnValue<C> = C extends TypeName
+    ? ToActualType<C>
+    : C extends Codec<infer V, any>
+    ? V
+    : C extends ColumnSpec
+    ?
+          | (C["codec"] extends Codec<infer V, any>
+                ? V
+                : ToActualType<C["type"]>)
+          | (C["nullable"] extends true ? null : never)
+          | (C["optional"] extends true
+                ? undefined extends C["default"]
+                    ? undefined
+                    : never
+                : never)
+    : never;
+
+type IsOmittable<C> = C extends ColumnSpec
+    ? C["optional"] extends true
+        ? true
+        : C["nullable"] extends true
+        ? true
+        : undefined extends C["default"]
+        ? false
+        : true
+    : false;
+
+export type SheetRecord<CTs extends ColumnTypes> = {
+    [key in keyof CTs]: ColumnValue<CTs[key]>;
+};
+
+/**
+ * Record accepted by `set`, `append` and `upsert`, where optional, nullable
+ * and defaulted columns may be left out.
+ */
+export type InsertRecord<CTs extends ColumnTypes> = {
+    [key in keyof CTs as IsOmittable<CTs[key]> extends true
+        ? never
+        : key]: ColumnValue<CTs[key]>;
+} & {
+    [key in keyof CTs as IsOmittable<CTs[key]> extends true
+        ? key
+        : never]?: ColumnValue<CTs[key]>;
+};
+
+/**
+ * A single key column, or several columns forming a composite key.
+ */
+export type PrimaryKey<CTs extends ColumnTypes> =
+    | keyof CTs
+    | readonly (keyof CTs)[];
+
+/**
+ * Value identifying a record: the cell value for a single key column,
+ * or an object of the key columns for a composite key.
+ */
+export type KeyValue<
+    CTs extends ColumnTypes,
+    PK extends PrimaryKey<CTs>
+> = PK extends readonly (infer K extends keyof CTs)[]
+    ? { readonly [key in K]: ColumnValue<CTs[key]> }
+    : PK extends keyof CTs
+    ? ColumnValue<CTs[PK]>
+    : never;
+
+/**
+ * Records of this sheet refer to records of `Target` through the `ForeignKey` column.
+ */
+export type Relation<
+    Target extends AnySheetQueryConfig = AnySheetQueryConfig,
+    ForeignKey extends PropertyKey = PropertyKey
+> = {
+    readonly target: Target;
+    readonly foreignKey: ForeignKey;
+    /**
+     * Column of `Target` the foreign key points at; its primary key when omitted.
+     */
+    readonly references: PropertyKey | undefined;
+    /**
+     * Reject commits leaving records that point at a missing target record.
+     */
+    readonly enforce: boolean;
+};
+
+export type Relations<CTs extends ColumnTypes> = {
+    readonly [name: string]: Relation<AnySheetQueryConfig, keyof CTs>;
+};
+
+/**
+ * Where the records of a config live.
+ */
+export type SheetLocator = {
+    /**
+     * Sheet id (the `gid` of the sheet URL) or sheet name.
+     */
+    readonly sheet: number | string;
+    /**
+     * ID or URL of the spreadsheet; the active spreadsheet when omitted.
+     */
+    readonly spreadsheet?: string;
+};
+
+/**
+ * Settings of the read cache of a config.
+ */
+export type ReadCacheOptions = {
+    /**
+     * Seconds the rows stay cached, from 1 to 21600 (6 hours); 600 when omitted.
+     */
+    readonly ttl?: number;
+};
+
+export type SheetQueryConfig<
+    CTs extends ColumnTypes,
+    PK extends PrimaryKey<CTs> | undefined = undefined,
+    Rel extends Relations<CTs> = NonNullable<unknown>
+> = SheetLocator & {
+    columnTypes: CTs;
+    primaryKey: PK;
+    relations: Rel;
+    migrations: readonly Migration[];
+    /**
+     * Ignore columns of the sheet that are not declared, keeping their values on write.
+     */
+    tolerant: boolean;
+    /**
+     * Keep the rows of the sheet in CacheService between calls; `undefined` to always read the sheet.
+     */
+    cache: ReadCacheOptions | undefined;
+    /**
+     * Where the changes of every commit are recorded; `undefined` to keep no audit trail.
+     */
+    audit: AuditSink | undefined;
+    /**
+     * Column stamped on every written row and checked on commit for changes made since the rows were loaded;
+     * `undefined` to write over such changes.
+     */
+    version: keyof CTs | undefined;
+};
+
+export type AnySheetQueryConfig = SheetQueryConfig<any, any, any>;
+
+/**
+ * Record type of the sheet a relation points at.
+ */
+export type RelatedRecord<R> = R extends Relation<infer Target>
+    ? Target extends SheetQueryConfig<infer CTs, any, any>
+        ? SheetRecord<CTs>
+        : never
+    : never;
@@ -0,0 +1,48 @@
+import { TypeName } from "./utils";
+
+/**
+ * A single change to the columns of a sheet.
+ */
+export type MigrationStep =
+    | {
+          readonly kind: "add-column";
+          readonly name: string;
+          readonly type: TypeName;
+          /**
+           * Value written into the new column for existing rows.
+           */
+          readonly defaultValue: unknown;
+          /**
+           * 0-based column index to insert at; the end when omitted.
+           */
+          readonly position: number | undefined;
+      }
+    | {
+          readonly kind: "rename-column";
+          readonly from: string;
+          readonly to: string;
+      }
+    | {
+          readonly kind: "reorder-columns";
+          /**
+           * Columns to move to the front, in order. The others follow in their current order.
+           */
+          readonly order: readonly string[];
+      }
+    | {
+          readonly kind: "drop-column";
+          readonly name: string;
+      }
+    | {
+          readonly kind: "change-type";
+          readonly name: string;
+          readonly type: TypeName;
+      };
+
+/**
+ * Steps bringing a sheet from the previous version to `version`.
+ */
+export type Migration = {
+    readonly version: number;
+    readonly steps: readonly MigrationStep[];
+};
@@ -21,6 +21,8 @@ export type ToTypeName<T> = T extends boolean
     ? "undefined"
     : T extends symbol
     ? "symbol"
+    : T extends Date
+    ? "Date"
     : T extends object
     ? "object"
     : T extends bigint
@@ -41,6 +43,8 @@ export type ToActualType<T extends TypeName> = T extends "string"
     ? object
     : T extends "bigint"
     ? bigint
+    : T extends "Date"
+    ? Date
     : never;
 
 export type Entries<T> = (keyof T extends infer U
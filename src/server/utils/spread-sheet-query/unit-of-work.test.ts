@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { UnitOfWorkEntry, createUnitOfWork } from "./unit-of-work";
+
+const SUMMARY = { inserted: 1, updated: 0, deleted: 0 };
+
+const entryOf = (
+    sheetName: string,
+    log: string[],
+    failing?: "commit" | "settle"
+): UnitOfWorkEntry => ({
+    sheetName,
+    verify: () => undefined,
+    commit: () => {
+        if (failing === "commit") throw new Error(`${sheetName} failed`);
+        log.push(`commit ${sheetName}`);
+        return SUMMARY;
+    },
+    settle: () => {
+        if (failing === "settle") throw new Error(`${sheetName} failed`);
+        log.push(`settle ${sheetName}`);
+    },
+    rollback: () => {
+        log.push(`rollback ${sheetName}`);
+    },
+});
+
+describe("createUnitOfWork", () => {
+    it("settles the sheets once every one is written", () => {
+        const log: string[] = [];
+        const unitOfWork = createUnitOfWork();
+        unitOfWork.enlist(entryOf("A", log));
+        unitOfWork.enlist(entryOf("B", log));
+
+        const result = unitOfWork.commit();
+
+        expect(result.isOk() && result.value).toEqual([
+            { sheet: "A", summary: SUMMARY },
+            { sheet: "B", summary: SUMMARY },
+        ]);
+        expect(log).toEqual(["commit A", "commit B", "settle A", "settle B"]);
+    });
+
+    it("rolls back the sheets written before and including a failed one", () => {
+        const log: string[] = [];
+        const unitOfWork = createUnitOfWork();
+        unitOfWork.enlist(entryOf("A", log));
+        unitOfWork.enlist(entryOf("B", log, "commit"));
+        unitOfWork.enlist(entryOf("C", log));
+
+        const result = unitOfWork.commit();
+
+        expect(result.isErr() && result.error).toMatchObject({
+            code: "ROLLED_BACK",
+            failedSheet: "B",
+            rolledBack: ["B", "A"],
+            audited: [],
+        });
+        expect(log).toEqual(["commit A", "rollback B", "rollback A"]);
+    });
+
+    it("reports the audit entries left behind by a failed settle", () => {
+        const log: string[] = [];
+        const unitOfWork = createUnitOfWork();
+        unitOfWork.enlist(entryOf("A", log));
+        unitOfWork.enlist(entryOf("B", log, "settle"));
+
+        const result = unitOfWork.commit();
+
+        expect(result.isErr() && result.error).toMatchObject({
+            code: "ROLLED_BACK",
+            failedSheet: "B",
+            rolledBack: ["B", "A"],
+            audited: ["A"],
+        });
+        expect(result.isErr() && result.error.message).toContain(
+            "Audit entries remain for: A."
+        );
+    });
+});
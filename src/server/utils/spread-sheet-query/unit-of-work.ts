@@ -0,0 +1,120 @@
+import { Err, Ok, Result } from "@/utils/result";
+import { CommitSummary } from "./diff";
+import { ConflictError, RollbackError } from "./errors";
+
+export type UnitOfWorkEntry = {
+    readonly sheetName: string;
+    /**
+     * Check the pending changes are valid, throwing otherwise, and that the sheet was not changed
+     * since it was loaded where they would write over it.
+     * @returns The conflict, or `undefined` when the sheet can be committed.
+     */
+    verify(): ConflictError | undefined;
+    /**
+     * Write pending changes onto the sheet.
+     */
+    commit(): CommitSummary;
+    /**
+     * Finish off a commit once every sheet was written, e.g. by recording its audit entries.
+     */
+    settle(): void;
+    /**
+     * Revert what `commit` wrote, even part way, leaving cells it did not write as they are.
+     */
+    rollback(): void;
+};
+
+export type CommitReport = readonly {
+    readonly sheet: string;
+    readonly summary: CommitSummary;
+}[];
+
+export type UnitOfWork = {
+    enlist(entry: UnitOfWorkEntry): void;
+    /**
+     * Commit every enlisted sheet in order, then settle them. If one fails, what was written
+     * to the sheets so far, the failing one included, is reverted.
+     * Audit entries settled before a failure stay, and are reported in the `RollbackError`.
+     * Nothing is written when a sheet has a conflict or invalid changes, e.g. a duplicate key.
+     */
+    commit(): Result<CommitReport, RollbackError | ConflictError>;
+};
+
+export const createUnitOfWork = (): UnitOfWork => {
+    const entries: UnitOfWorkEntry[] = [];
+
+    // Restore `written` in reverse order, reporting `failed` as the cause
+    // and the sheets in `audited` as having audit entries left behind.
+    const rollBack = (
+        failed: UnitOfWorkEntry,
+        written: readonly UnitOfWorkEntry[],
+        error: unknown,
+        audited: readonly UnitOfWorkEntry[] = []
+    ) => {
+        const rolledBack: string[] = [];
+        const unrecovered: string[] = [];
+
+        written
+            .slice()
+            .reverse()
+            .forEach((e) => {
+                try {
+                    e.rollback();
+                    rolledBack.push(e.sheetName);
+                } catch (rollbackError) {
+                    console.error(rollbackError);
+                    unrecovered.push(e.sheetName);
+                }
+            });
+
+        return Err(
+            new RollbackError(
+                failed.sheetName,
+                rolledBack,
+                unrecovered,
+                audited.map((e) => e.sheetName),
+                error
+            )
+        );
+    };
+
+    const commit = () => {
+        for (const entry of entries) {
+            const conflict = entry.verify();
+            if (conflict !== undefined) {
+                return Err(conflict);
+            }
+        }
+
+        const report: { sheet: string; summary: CommitSummary }[] = [];
+
+        for (const [index, entry] of entries.entries()) {
+            try {
+                report.push({
+                    sheet: entry.sheetName,
+                    summary: entry.commit(),
+                });
+            } catch (error) {
+                return rollBack(entry, entries.slice(0, index + 1), error);
+            }
+        }
+
+        for (const [index, entry] of entries.entries()) {
+            try {
+                entry.settle();
+            } catch (error) {
+                // Audit sinks only append, so entries already written cannot be taken back.
+                return rollBack(entry, entries, error, entries.slice(0, index));
+            }
+        }
+
+        return Ok(report as CommitReport);
+    };
+
+    return {
+        enlist: (entry) => {
+            entries.push(entry);
+        },
+        commit,
+    };
+};
@@ -0,0 +1,146 @@
+import { specOf } from "./columns";
+import { TrackedRow, isSameCell, isSameRow } from "./diff";
+import { ConflictRow, InvalidConfigError } from "./errors";
+import { HEADER_ROWS } from "./header";
+import { ColumnTypes } from "./types/config";
+
+/**
+ * Where the version column of a config sits on a row, and what it holds.
+ */
+export type VersionColumn = {
+    readonly index: number;
+    readonly type: "number" | "Date";
+};
+
+/**
+ * Find the version column of a config, checking it can hold versions.
+ * @param names Column name of each cell of a row.
+ * @returns The column, or `undefined` when the config declares none.
+ */
+export const versionColumnOf = (
+    version: string | undefined,
+    columnTypes: ColumnTypes,
+    names: readonly string[],
+    sheetName: string
+): VersionColumn | undefined => {
+    if (version === undefined) {
+        return undefined;
+    }
+
+    const definition = columnTypes[version];
+    const spec = definition === undefined ? undefined : specOf(definition);
+    if (
+        spec === undefined ||
+        spec.codec !== undefined ||
+        (spec.type !== "number" && spec.type !== "Date")
+    ) {
+        throw new InvalidConfigError(
+            sheetName,
+            `Version column "${version}" must be declared as "number" or "Date"`
+        );
+    }
+
+    const index = names.indexOf(version);
+    if (index < 0) {
+        throw new InvalidConfigError(
+            sheetName,
+            `Version column "${version}" is not on the sheet`
+        );
+    }
+    return { index, type: spec.type };
+};
+
+/**
+ * Give a new version to every row that is new or differs from its loaded row:
+ * the loaded version plus one for a number column, the commit time for a Date column.
+ * @param snapshot Cells of the data rows as loaded.
+ * @param decoded Record values of the rows to be committed, in cell order.
+ * @param encoded The same rows as cells, tracked to their snapshot index.
+ */
+export const stampVersions = (
+    snapshot: readonly unknown[][],
+    decoded: readonly (readonly unknown[])[],
+    encoded: readonly TrackedRow<unknown[]>[],
+    { index, type }: VersionColumn,
+    now: number
+) => {
+    const versions = encoded.map(({ origin, values }) => {
+        const loaded = origin === undefined ? undefined : snapshot[origin];
+        if (loaded !== undefined && isSameRow(values, loaded)) {
+            return undefined;
+        }
+
+        const previous = loaded?.[index];
+        return type === "Date"
+            ? new Date(now)
+            : (typeof previous === "number" ? previous : 0) + 1;
+    });
+    const withVersion = (values: readonly unknown[], i: number) =>
+        versions[i] === undefined
+            ? values.slice()
+            : values.map((v, c) => (c === index ? versions[i] : v));
+
+    return {
+        decoded: decoded.map(withVersion),
+        encoded: encoded.map(({ origin, values }, i) => ({
+            origin,
+            values: withVersion(values, i),
+        })),
+    };
+};
+
+/**
+ * Rows a commit would overwrite or delete that were changed on the sheet since they were loaded.
+ * A row counts as unchanged while its version and key cells are the ones loaded. Once rows were
+ * deleted from the sheet, or appended while the commit appends too, rows no longer sit where
+ * they were loaded, so every row the commit would write over is a conflict.
+ * @param snapshot Cells of the data rows as loaded.
+ * @param latest Cells of the data rows as they are now.
+ * @param rows Cells to be committed, tracked to their snapshot index.
+ * @param keyIndices Cells of the key columns.
+ */
+export const findConflicts = (
+    snapshot: readonly unknown[][],
+    latest: readonly unknown[][],
+    rows: readonly TrackedRow<unknown[]>[],
+    { index }: VersionColumn,
+    keyIndices: readonly number[]
+): ConflictRow[] => {
+    const kept = new Map(
+        rows.flatMap(({ origin, values }) =>
+            origin === undefined ? [] : [[origin, values] as const]
+        )
+    );
+    const touched = snapshot
+        .map((_, i) => i)
+        .filter((i) => {
+            const values = kept.get(i);
+            return values === undefined || !isSameRow(values, snapshot[i]);
+        });
+
+    const shifted = latest.length < snapshot.length;
+    const overwritten =
+        latest.length > snapshot.length &&
+        rows.some(({ origin }) => origin === undefined)
+            ? latest.slice(snapshot.length).map((_, i) => snapshot.length + i)
+            : [];
+
+    const conflictOf = (i: number): ConflictRow => ({
+        row: i + HEADER_ROWS + 1,
+        expected: snapshot[i]?.[index],
+        actual: latest[i]?.[index],
+    });
+
+    return [
+        ...touched
+            .filter(
+                (i) =>
+                    shifted ||
+                    [index, ...keyIndices].some(
+                        (c) => !isSameCell(latest[i][c], snapshot[i][c])
+                    )
+            )
+            .map(conflictOf),
+        ...overwritten.map(conflictOf),
+    ];
+};
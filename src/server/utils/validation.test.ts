@@ -0,0 +1,118 @@
+import { Ok } from "@/utils/result";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  array,
+  date,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  tuple,
+  withParams,
+} from "./validation";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const updateUser = withParams(
+  [
+    string(),
+    object({
+      name: string(),
+      age: optional(number()),
+      role: oneOf("admin", "member"),
+      tags: array(string()),
+      manager: nullable(string()),
+    }),
+  ],
+  (id, changes) => Ok({ id, changes })
+);
+
+describe("withParams", () => {
+  it("calls the handler with the checked arguments, unknown properties dropped", () => {
+    const result = updateUser("1", {
+      name: "Alice",
+      role: "admin",
+      tags: ["a"],
+      manager: null,
+      extra: true,
+    } as never);
+
+    expect(result.isOk() && result.value).toEqual({
+      id: "1",
+      changes: { name: "Alice", role: "admin", tags: ["a"], manager: null },
+    });
+  });
+
+  it("lists every mismatch with where it is, without calling the handler", () => {
+    const handler = vi.fn(() => Ok(undefined));
+    const checked = withParams([string(), object({ age: number() })], handler);
+
+    // As the client may call it, with more arguments than declared.
+    const result = (
+      checked as (...args: unknown[]) => ReturnType<typeof checked>
+    )(1, { age: "30" }, "more");
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.isErr() && result.error).toMatchObject({
+      code: "INVALID_ARGUMENTS",
+      details: {
+        issues: [
+          { argument: 0, path: [], expected: "string", received: "1" },
+          { argument: 1, path: ["age"], expected: "number", received: '"30"' },
+          {
+            argument: 2,
+            path: [],
+            expected: "no argument",
+            received: '"more"',
+          },
+        ],
+      },
+    });
+  });
+
+  it("rejects values outside oneOf, arrays and tuples of the wrong shape", () => {
+    const checked = withParams(
+      [oneOf("admin", "member"), array(number()), tuple(string(), number())],
+      () => Ok(undefined)
+    );
+
+    const result = checked("owner" as never, [1, "2"] as never, ["a"] as never);
+
+    expect(
+      result.isErr() &&
+        result.error.details.issues.map(({ argument, path, expected }) => ({
+          argument,
+          path,
+          expected,
+        }))
+    ).toEqual([
+      { argument: 0, path: [], expected: 'one of "admin", "member"' },
+      { argument: 1, path: [1], expected: "number" },
+      { argument: 2, path: [], expected: "[string, number]" },
+    ]);
+  });
+
+  it("reads dates in the script time zone and rejects other text", () => {
+    vi.stubGlobal("Session", { getScriptTimeZone: () => "Asia/Tokyo" });
+    const checked = withParams([date()], (d) => Ok(d));
+
+    const parsed = checked("2024-01-02 09:00" as never);
+    const rejected = checked("someday" as never);
+
+    expect(parsed.isOk() && parsed.value).toEqual(
+      new Date("2024-01-02T00:00:00Z")
+    );
+    expect(rejected.isErr() && rejected.error.details.issues).toEqual([
+      {
+        argument: 0,
+        path: [],
+        expected: "date string",
+        received: '"someday"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,267 @@
+import { Err, Failure, Result } from "@/utils/result";
+import { parseDateString } from "./dates";
+
+/**
+ * Keys and indices leading to a value within an argument.
+ */
+export type ValidationPath = readonly (string | number)[];
+
+export type ValidationIssue = {
+  /**
+   * 0-based index of the argument.
+   */
+  readonly argument: number;
+  /**
+   * Where the value sits within the argument; empty for the argument itself.
+   */
+  readonly path: ValidationPath;
+  readonly expected: string;
+  readonly received: string;
+};
+
+type Issue = Omit<ValidationIssue, "argument">;
+
+/**
+ * Runtime check of a value sent by the client, standing for the type `T`.
+ */
+export type Schema<T> = {
+  /**
+   * What the schema accepts, as shown in issues.
+   */
+  readonly expected: string;
+  /**
+   * Check `value`, adding an issue for every part of it that does not match.
+   * @returns `value` as a `T`; only meaningful when no issue was added.
+   */
+  parse(value: unknown, path: ValidationPath, issues: Issue[]): T;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class ValidationError extends Error {
+  public readonly code = "INVALID_ARGUMENTS";
+  public readonly details: { readonly issues: readonly ValidationIssue[] };
+
+  constructor(issues: readonly ValidationIssue[]) {
+    super(
+      `Invalid arguments: ${issues
+        .map(
+          ({ argument, path, expected, received }) =>
+            `argument ${argument}${path
+              .map((p) => `[${JSON.stringify(p)}]`)
+              .join("")} expected ${expected} but got ${received}`
+        )
+        .join("; ")}`
+    );
+    this.name = "ValidationError";
+    this.details = { issues };
+  }
+}
+
+const describe = (value: unknown) =>
+  value === undefined
+    ? "undefined"
+    : Array.isArray(value)
+    ? "array"
+    : value instanceof Date
+    ? "Date"
+    : typeof value === "object" && value !== null
+    ? "object"
+    : JSON.stringify(value);
+
+const primitive = <T>(
+  expected: string,
+  accepts: (value: unknown) => value is T
+): Schema<T> => ({
+  expected,
+  parse: (value, path, issues) => {
+    if (!accepts(value)) {
+      issues.push({ path, expected, received: describe(value) });
+    }
+    return value as T;
+  },
+});
+
+export const string = () =>
+  primitive("string", (v): v is string => typeof v === "string");
+
+export const number = () =>
+  primitive(
+    "number",
+    (v): v is number => typeof v === "number" && Number.isFinite(v)
+  );
+
+export const boolean = () =>
+  primitive("boolean", (v): v is boolean => typeof v === "boolean");
+
+/**
+ * One of the given values.
+ * @example
+ * oneOf("admin", "member")
+ */
+export const oneOf = <
+  const Values extends readonly (string | number | boolean)[]
+>(
+  ...values: Values
+) =>
+  primitive(
+    values.length === 1
+      ? JSON.stringify(values[0])
+      : `one of ${values.map((v) => JSON.stringify(v)).join(", ")}`,
+    (v): v is Values[number] => values.includes(v as string | number | boolean)
+  );
+
+/**
+ * A date sent as text, e.g. a date that came from the server through `apiHandler`.
+ * Dates without an offset are read in the script time zone.
+ */
+export const date = (): Schema<Date> => ({
+  expected: "date string",
+  parse: (value, path, issues) => {
+    const parsed =
+      typeof value === "string"
+        ? parseDateString(value, Session.getScriptTimeZone())
+        : undefined;
+    if (parsed === undefined) {
+      issues.push({ path, expected: "date string", received: describe(value) });
+    }
+    return parsed as Date;
+  },
+});
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  expected: `${schema.expected} | undefined`,
+  parse: (value, path, issues) =>
+    value === undefined ? undefined : schema.parse(value, path, issues),
+});
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  expected: `${schema.expected} | null`,
+  parse: (value, path, issues) =>
+    value === null ? null : schema.parse(value, path, issues),
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  expected: `${item.expected}[]`,
+  parse: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({
+        path,
+        expected: `${item.expected}[]`,
+        received: describe(value),
+      });
+      return [];
+    }
+    return value.map((v, i) => item.parse(v, [...path, i], issues));
+  },
+});
+
+export const tuple = <const Items extends readonly Schema<unknown>[]>(
+  ...items: Items
+): Schema<{ -readonly [K in keyof Items]: Infer<Items[K]> }> => {
+  const expected = `[${items.map((item) => item.expected).join(", ")}]`;
+
+  return {
+    expected,
+    parse: (value, path, issues) => {
+      if (!Array.isArray(value) || value.length !== items.length) {
+        issues.push({ path, expected, received: describe(value) });
+        return [] as never;
+      }
+      return items.map((item, i) =>
+        item.parse(value[i], [...path, i], issues)
+      ) as never;
+    },
+  };
+};
+
+type Shape = { readonly [key: string]: Schema<unknown> };
+
+// Keys whose value may be `undefined` are optional.
+type ObjectOf<S extends Shape> = {
+  [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+/**
+ * A plain object with the given properties. Other properties are dropped.
+ * @example
+ * object({ name: string(), age: optional(number()) })
+ */
+export const object = <const S extends Shape>(
+  shape: S
+): Schema<ObjectOf<S>> => {
+  const expected = `{ ${Object.entries(shape)
+    .map(([key, schema]) => `${key}: ${schema.expected}`)
+    .join(", ")} }`;
+
+  return {
+    expected,
+    parse: (value, path, issues) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ path, expected, received: describe(value) });
+        return {} as ObjectOf<S>;
+      }
+      return Object.fromEntries(
+        Object.entries(shape)
+          .map(([key, schema]) => [
+            key,
+            schema.parse(
+              (value as Record<string, unknown>)[key],
+              [...path, key],
+              issues
+            ),
+          ])
+          .filter(([, v]) => v !== undefined)
+      ) as ObjectOf<S>;
+    },
+  };
+};
+
+type Params<S extends readonly Schema<unknown>[]> = {
+  -readonly [K in keyof S]: Infer<S[K]>;
+};
+
+/**
+ * Check the arguments of `fn` against `schemas` before it runs,
+ * returning a `ValidationError` listing every mismatch instead of calling it.
+ * The parameter types of `fn` are inferred from the schemas, and `fn` may be async.
+ * @example
+ * export const updateUser = withParams(
+ *   [string(), object({ name: string(), age: optional(number()) })],
+ *   (id, changes) => { ... }
+ * );
+ */
+export const withParams =
+  <
+    const S extends readonly Schema<unknown>[],
+    R extends Result<unknown, Error> | Promise<Result<unknown, Error>>
+  >(
+    schemas: S,
+    fn: (...args: Params<S>) => R
+  ) =>
+  (...args: Params<S>): R | Failure<ValidationError> => {
+    const issues: ValidationIssue[] = [];
+    const parsed = schemas.map((schema, argument) => {
+      const found: Issue[] = [];
+      const value = schema.parse(args[argument], [], found);
+      issues.push(...found.map((issue) => ({ argument, ...issue })));
+      return value;
+    });
+    args.slice(schemas.length).forEach((value, i) =>
+      issues.push({
+        argument: schemas.length + i,
+        path: [],
+        expected: "no argument",
+        received: describe(value),
+      })
+    );
+
+    if (issues.length > 0) {
+      return Err(new ValidationError(issues));
+    }
+    return fn(...(parsed as Params<S>));
+  };
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { apiHandler } from "../server/utils/result";
+import {
+  ConflictError,
+  RollbackError,
+  WriteFailedError,
+} from "../server/utils/spread-sheet-query/errors";
+import {
+  ApiError,
+  ConflictApiError,
+  RollbackApiError,
+  UnhandledApiError,
+  WriteFailedApiError,
+  toApiError,
+} from "./api-error";
+import { Err, Result } from "./result";
+
+const failedWith = (error: Error) => {
+  const result = apiHandler(() => Err(error))();
+  if (result.ok) {
+    throw new Error("expected the handler to fail");
+  }
+  return result;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("toApiError", () => {
+  it("rebuilds a serialized error as the class of its code", () => {
+    const error = toApiError(
+      failedWith(
+        new ConflictError("Users", [{ row: 2, expected: 1, actual: 2 }])
+      )
+    );
+
+    expect(error).toBeInstanceOf(ConflictApiError);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      name: "ConflictError",
+      code: "CONFLICT",
+      retryable: true,
+      details: { sheet: "Users", rows: [{ row: 2, expected: 1, actual: 2 }] },
+    });
+  });
+
+  it("rebuilds the causes of an error as their own classes", () => {
+    const error = toApiError(
+      failedWith(
+        new RollbackError(
+          "Groups",
+          ["Users"],
+          [],
+          [],
+          new WriteFailedError("Groups", new Error("Service unavailable"))
+        )
+      )
+    );
+
+    expect(error).toBeInstanceOf(RollbackApiError);
+    expect(error.cause).toBeInstanceOf(WriteFailedApiError);
+    expect(error.cause?.cause).toBeInstanceOf(ApiError);
+    expect(error.cause?.cause).toMatchObject({
+      code: "UNKNOWN",
+      message: "Service unavailable",
+    });
+  });
+
+  it("rebuilds what a handler threw as an unhandled error", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const result = apiHandler((): Result<string, Error> => {
+      throw new TypeError("oops");
+    })();
+    if (result.ok) {
+      throw new Error("expected the handler to fail");
+    }
+
+    const error = toApiError(result);
+
+    expect(error).toBeInstanceOf(UnhandledApiError);
+    expect(error.cause).toMatchObject({ name: "TypeError", message: "oops" });
+  });
+
+  it("rebuilds an error of an unknown code as a plain ApiError", () => {
+    const error = toApiError({
+      name: "Error",
+      message: "odd",
+      code: "ODD",
+      retryable: false,
+    });
+
+    expect(error.constructor).toBe(ApiError);
+    expect(error.code).toBe("ODD");
+  });
+});
@@ -0,0 +1,193 @@
+import type {
+  ForbiddenError,
+  RateLimitError,
+} from "../server/utils/middleware";
+import type { SerializedError } from "../server/utils/result";
+import type {
+  ConflictError,
+  DuplicateKeyError,
+  HeaderMismatchError,
+  InvalidConfigError,
+  LockTimeoutError,
+  MigrationError,
+  RelationIntegrityError,
+  RollbackError,
+  SheetNotFoundError,
+  TypeMismatchError,
+  WriteFailedError,
+} from "../server/utils/spread-sheet-query/errors";
+import type { ValidationError } from "../server/utils/validation";
+
+/**
+ * An error of the server, rebuilt on the client from the error a procedure returned.
+ */
+export class ApiError<
+  Code extends string = string,
+  Details = unknown,
+> extends Error {
+  public readonly code: Code;
+  public readonly details: Details | undefined;
+  public readonly retryable: boolean;
+  public readonly cause: ApiError | undefined;
+
+  constructor(
+    name: string,
+    message: string,
+    code: Code,
+    details: Details | undefined,
+    retryable: boolean,
+    cause: ApiError | undefined
+  ) {
+    super(message);
+    this.name = name;
+    this.code = code;
+    this.details = details;
+    this.retryable = retryable;
+    this.cause = cause;
+  }
+}
+
+// Details of a server error as they reach the client.
+type DetailsOf<E extends Error> = NonNullable<SerializedError<E>["details"]>;
+
+export class SheetNotFoundApiError extends ApiError<
+  "SHEET_NOT_FOUND",
+  DetailsOf<SheetNotFoundError>
+> {}
+
+export class HeaderMismatchApiError extends ApiError<
+  "HEADER_MISMATCH",
+  DetailsOf<HeaderMismatchError>
+> {}
+
+export class TypeMismatchApiError extends ApiError<
+  "TYPE_MISMATCH",
+  DetailsOf<TypeMismatchError>
+> {}
+
+export class DuplicateKeyApiError extends ApiError<
+  "DUPLICATE_KEY",
+  DetailsOf<DuplicateKeyError>
+> {}
+
+export class RelationIntegrityApiError extends ApiError<
+  "RELATION_INTEGRITY",
+  DetailsOf<RelationIntegrityError>
+> {}
+
+export class InvalidConfigApiError extends ApiError<
+  "INVALID_CONFIG",
+  DetailsOf<InvalidConfigError>
+> {}
+
+export class LockTimeoutApiError extends ApiError<
+  "LOCK_TIMEOUT",
+  DetailsOf<LockTimeoutError>
+> {}
+
+export class WriteFailedApiError extends ApiError<
+  "WRITE_FAILED",
+  DetailsOf<WriteFailedError>
+> {}
+
+export class RollbackApiError extends ApiError<
+  "ROLLED_BACK",
+  DetailsOf<RollbackError>
+> {}
+
+export class MigrationApiError extends ApiError<
+  "MIGRATION_FAILED",
+  DetailsOf<MigrationError>
+> {}
+
+export class ConflictApiError extends ApiError<
+  "CONFLICT",
+  DetailsOf<ConflictError>
+> {}
+
+export class ForbiddenApiError extends ApiError<
+  "FORBIDDEN",
+  DetailsOf<ForbiddenError>
+> {}
+
+export class RateLimitApiError extends ApiError<
+  "RATE_LIMITED",
+  DetailsOf<RateLimitError>
+> {}
+
+export class ValidationApiError extends ApiError<
+  "INVALID_ARGUMENTS",
+  DetailsOf<ValidationError>
+> {}
+
+/**
+ * A value the handler threw instead of returning an `Err`; its `cause` is what was thrown.
+ */
+export class UnhandledApiError extends ApiError<"UNHANDLED", never> {}
+
+const API_ERRORS = {
+  SHEET_NOT_FOUND: SheetNotFoundApiError,
+  HEADER_MISMATCH: HeaderMismatchApiError,
+  TYPE_MISMATCH: TypeMismatchApiError,
+  DUPLICATE_KEY: DuplicateKeyApiError,
+  RELATION_INTEGRITY: RelationIntegrityApiError,
+  INVALID_CONFIG: InvalidConfigApiError,
+  LOCK_TIMEOUT: LockTimeoutApiError,
+  WRITE_FAILED: WriteFailedApiError,
+  ROLLED_BACK: RollbackApiError,
+  MIGRATION_FAILED: MigrationApiError,
+  CONFLICT: ConflictApiError,
+  FORBIDDEN: ForbiddenApiError,
+  RATE_LIMITED: RateLimitApiError,
+  INVALID_ARGUMENTS: ValidationApiError,
+  UNHANDLED: UnhandledApiError,
+} as const;
+
+type ApiErrors = typeof API_ERRORS;
+
+/**
+ * The `ApiError` a serialized error is rebuilt into, one case per code,
+ * so a `switch` on `code` narrows `details`.
+ * Known codes get their own subclass; others, e.g. `"UNKNOWN"`, a plain `ApiError`.
+ */
+export type ApiErrorOf<S> = S extends {
+  code: infer Code extends string;
+  details?: infer Details;
+}
+  ? Code extends keyof ApiErrors
+    ? InstanceType<ApiErrors[Code]>
+    : ApiError<Code, Details>
+  : never;
+
+/**
+ * Rebuild the error of a failed procedure call, as the subclass of `ApiError` for its code,
+ * so it can also be told apart with `instanceof`.
+ * @example
+ * server.users.update(id, changes).then((result) => {
+ *   if (result.ok) return;
+ *   const error = toApiError(result);
+ *   switch (error.code) {
+ *     case "CONFLICT":
+ *       return reload(error.details?.rows);
+ *     case "INVALID_ARGUMENTS":
+ *       return showIssues(error.details?.issues);
+ *   }
+ * });
+ */
+export const toApiError = <S extends SerializedError>(
+  serialized: S
+): ApiErrorOf<S> => {
+  const { name, message, code, details, retryable, cause } = serialized;
+  const Kind = Object.prototype.hasOwnProperty.call(API_ERRORS, code)
+    ? (API_ERRORS[code as keyof ApiErrors] as typeof ApiError)
+    : ApiError;
+
+  return new Kind(
+    name,
+    message,
+    code,
+    details,
+    retryable,
+    cause === undefined ? undefined : toApiError(cause)
+  ) as ApiErrorOf<S>;
+};
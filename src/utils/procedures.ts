@@ -0,0 +1,46 @@
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Procedure = (...args: any[]) => unknown;
+
+/**
+ * Joins the namespaces of a procedure into the name of its global function.
+ * `scripts/build.js` names the stubs it generates the same way.
+ */
+const SEPARATOR = "__";
+
+/**
+ * Name of the global function a procedure is exposed under, e.g. `users__list` for `users.list`.
+ */
+export const procedureName = (path: readonly string[]) => path.join(SEPARATOR);
+
+/**
+ * Promise-returning counterpart of a router, as seen from the client.
+ */
+export type ServerClient<R> = {
+  readonly [K in keyof R]: R[K] extends Procedure
+    ? (...args: Parameters<R[K]>) => Promise<Awaited<ReturnType<R[K]>>>
+    : ServerClient<R[K]>;
+};
+
+/**
+ * Call the procedures of a router through its namespaces.
+ * @param serverFunctions Global functions of the server by name, e.g. `serverFunctions` of `GASClient`.
+ * @example
+ * const server = createServerClient<typeof router>(new GASClient().serverFunctions);
+ * server.users.list().then((result) => ...);
+ */
+export const createServerClient = <R>(
+  serverFunctions: Record<string, (...args: unknown[]) => Promise<unknown>>
+): ServerClient<R> => {
+  const namespaceOf = (path: readonly string[]): unknown =>
+    new Proxy(() => undefined, {
+      // `then` is left undefined, so a namespace is never taken for a promise.
+      get: (_, name) =>
+        typeof name === "string" && name !== "then"
+          ? namespaceOf([...path, name])
+          : undefined,
+      apply: (_, __, args: unknown[]) =>
+        serverFunctions[procedureName(path)](...args),
+    });
+
+  return namespaceOf([]) as ServerClient<R>;
+};
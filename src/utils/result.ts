@@ -40,8 +40,9 @@ export class Failure<E extends Error, T = never> implements IResult<T, E> {
   }
 }
 
+// `never` as the error lets a success stand for a result of any error type.
 export const Ok = <T>(value: T) => {
-  return new Success(value);
+  return new Success<T, never>(value);
 };
 
 export const Err = <E extends Error>(err: E) => {
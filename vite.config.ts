@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import { viteSingleFile } from "vite-plugin-singlefile";
 
@@ -6,4 +7,11 @@ import react from "@vitejs/plugin-react";
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react(), viteSingleFile()],
+  resolve: {
+    // The same alias as `paths` in tsconfig.json.
+    alias: { "@": new URL("./src", import.meta.url).pathname },
+  },
+  test: {
+    environment: "node",
+  },
 });